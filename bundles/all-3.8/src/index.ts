@@ -1,5 +1,6 @@
-import {SpineParser} from '@pixi-spine/loader-3.8';
-export {SpineParser};
+import {SpineParser, loadSpine} from '@pixi-spine/loader-3.8';
+export {SpineParser, loadSpine};
+export {SpineLoadError} from '@pixi-spine/loader-base';
 export * from '@pixi-spine/runtime-3.8';
 export * from '@pixi-spine/base';
 
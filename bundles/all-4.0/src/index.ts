@@ -1,5 +1,6 @@
-import {SpineParser} from '@pixi-spine/loader-4.0';
-export {SpineParser};
+import {SpineParser, loadSpine} from '@pixi-spine/loader-4.0';
+export {SpineParser, loadSpine};
+export {SpineLoadError} from '@pixi-spine/loader-base';
 export * from '@pixi-spine/runtime-4.0';
 export * from '@pixi-spine/base';
 
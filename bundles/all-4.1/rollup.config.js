@@ -0,0 +1,37 @@
+const { main } = require("@pixi-spine/rollup-config/main");
+
+const results = main({
+    globals: {
+        "@pixi-spine/base": "PIXI.spine",
+        "@pixi-spine/runtime-4.1": "PIXI.spine41",
+        "@pixi-spine/loader-base": "PIXI.spine",
+        "@pixi-spine/loader-4.1": "PIXI.spine",
+    },
+});
+
+// TODO: get sorted deps of all our @pixi-spine deps
+
+const umdDeps = ["pixi.js-legacy"];
+
+const license1 =
+    "is licensed under the MIT License.\n * http://www.opensource.org/licenses/mit-license";
+const licenseSpine =
+    "is licensed under SPINE-LICENSE\n * http://esotericsoftware.com/spine-runtimes-license";
+
+results.forEach((entry) => {
+    if (entry.output.banner) {
+        entry.output.banner = entry.output.banner.replace(
+            license1,
+            licenseSpine
+        );
+    }
+    if (entry.output.format === "umd") {
+        entry.external = entry.external
+            .filter((moduleName) => {
+                return moduleName.indexOf("@pixi-spine") !== 0;
+            })
+            .concat(umdDeps);
+    }
+});
+
+module.exports = results;
@@ -0,0 +1,7 @@
+import {SpineParser, loadSpine} from '@pixi-spine/loader-4.1';
+export {SpineParser, loadSpine};
+export {SpineLoadError} from '@pixi-spine/loader-base';
+export * from '@pixi-spine/runtime-4.1';
+export * from '@pixi-spine/base';
+
+SpineParser.registerLoaderPlugin();
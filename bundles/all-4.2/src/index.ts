@@ -0,0 +1,7 @@
+import {SpineParser, loadSpine} from '@pixi-spine/loader-4.2';
+export {SpineParser, loadSpine};
+export {SpineLoadError} from '@pixi-spine/loader-base';
+export * from '@pixi-spine/runtime-4.2';
+export * from '@pixi-spine/base';
+
+SpineParser.registerLoaderPlugin();
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+// Command line tools, they use core entries of pixi-spine packages, PIXI is not needed.
+
+const fs = require('fs');
+const path = require('path');
+const { TextureAtlasData } = require('@pixi-spine/base/lib/core');
+const {
+    RegionlessAtlas,
+    UniBinaryParser,
+    UniJsonParser,
+    SkeletonInspector,
+} = require('@pixi-spine/loader-uni/lib/core');
+
+const usage = `Usage: pixi-spine inspect <skeleton.json|skeleton.skel> [options]
+
+Options:
+  --atlas <file>   atlas of the skeleton, default is the file with the same name and .atlas extension,
+                   regions are not needed to inspect skeleton, it's read without them if there's no such file
+  --scale <number> skeleton scale
+  --json           print the report as json`;
+
+function parseArgs(args) {
+    const options = { command: args[0], file: null, atlas: null, scale: 1, json: false };
+
+    for (let i = 1; i < args.length; i++) {
+        const arg = args[i];
+
+        if (arg === '--atlas') {
+            options.atlas = args[++i];
+        } else if (arg === '--scale') {
+            options.scale = parseFloat(args[++i]);
+        } else if (arg === '--json') {
+            options.json = true;
+        } else if (!options.file && arg[0] !== '-') {
+            options.file = arg;
+        } else {
+            throw new Error(`Unknown option ${arg}`);
+        }
+    }
+
+    return options;
+}
+
+function inspect(options) {
+    const ext = path.extname(options.file);
+    const atlasFile = options.atlas || options.file.substr(0, options.file.length - ext.length) + '.atlas';
+    const atlas = options.atlas || fs.existsSync(atlasFile)
+        ? new TextureAtlasData(fs.readFileSync(atlasFile, 'utf8'))
+        : new RegionlessAtlas();
+    const binary = ext === '.skel' || ext === '.bin';
+    const parser = binary ? new UniBinaryParser() : new UniJsonParser();
+
+    parser.scale = options.scale;
+
+    const skeletonData = parser.readSkeletonData(atlas, binary
+        ? new Uint8Array(fs.readFileSync(options.file))
+        : JSON.parse(fs.readFileSync(options.file, 'utf8')));
+    const inspector = new SkeletonInspector();
+    const info = inspector.inspect(skeletonData);
+
+    console.log(options.json ? JSON.stringify(info, null, 2) : inspector.toText(info));
+}
+
+function main(args) {
+    let options;
+
+    try {
+        options = parseArgs(args);
+    } catch (e) {
+        console.error(e.message);
+        console.error(usage);
+
+        return 1;
+    }
+    if (options.command !== 'inspect' || !options.file) {
+        console.error(usage);
+
+        return 1;
+    }
+    try {
+        inspect(options);
+    } catch (e) {
+        console.error(`${options.file}: ${e.message}`);
+
+        return 1;
+    }
+
+    return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
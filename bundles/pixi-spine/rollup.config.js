@@ -6,6 +6,8 @@ const results = main({
         "@pixi-spine/runtime-3.7": "PIXI.spine37",
         "@pixi-spine/runtime-3.8": "PIXI.spine38",
         "@pixi-spine/runtime-4.0": "PIXI.spine40",
+        "@pixi-spine/runtime-4.1": "PIXI.spine41",
+        "@pixi-spine/runtime-4.2": "PIXI.spine42",
         "@pixi-spine/loader-base": "PIXI.spine",
         "@pixi-spine/loader-uni": "PIXI.spine",
     },
@@ -1,5 +1,6 @@
-import {Spine, SpineParser} from '@pixi-spine/loader-uni';
-export {Spine, SpineParser};
+import {Spine, SpineBatched, SpineDebugRenderer, SpineParser, loadSpine} from '@pixi-spine/loader-uni';
+export {Spine, SpineBatched, SpineDebugRenderer, SpineParser, loadSpine};
+export {SpineLoadError} from '@pixi-spine/loader-base';
 export * from '@pixi-spine/base';
 export {SkeletonBounds} from '@pixi-spine/runtime-4.0';
 
@@ -0,0 +1,12 @@
+const {main} = require('@pixi-spine/rollup-config/main');
+
+module.exports = [
+    ...main({}),
+    // core without PIXI for node
+    ...main({
+        input: 'src/core.ts',
+        main: 'lib/core.js',
+        module: 'lib/core.es.js',
+        bundle: false,
+    }),
+];
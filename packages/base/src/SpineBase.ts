@@ -1,7 +1,8 @@
 import { AttachmentType } from "./core/AttachmentType";
+import { SkeletonClipping } from "./core/SkeletonClipping";
 import { TextureRegion } from "./core/TextureRegion";
 import { TextureAtlasRegion } from "./core/TextureAtlas";
-import { MathUtils } from "./core/Utils";
+import { Color, MathUtils, Vector2 } from "./core/Utils";
 import type { IAnimationState, IAnimationStateData } from "./core/IAnimation";
 import type {
     IAttachment,
@@ -12,12 +13,68 @@ import type {
     ISkeletonData,
     ISlot,
     IVertexAttachment,
+    IVertexEffect,
 } from "./core/ISkeleton";
 
+import {
+    applySequence,
+    autoUpdateTransform,
+    computeQuadUvs,
+    grow,
+    RegionPageLoader,
+} from "./helpers";
 import { settings } from "./settings";
+import { SpineBatch } from "./SpineBatchedBase";
 import * as PIXI from "pixi.js-legacy";
 
 let tempRgb = [0, 0, 0];
+let blackRgb = [0, 0, 0];
+let tempMatrix = new PIXI.Matrix();
+let tempUvMatrix = new PIXI.TextureMatrix(PIXI.Texture.EMPTY);
+let tempPosition = new Vector2();
+let tempUv = new Vector2();
+let tempLight = new Color();
+let tempDark = new Color();
+let tempQuad = new Float32Array(8);
+let tempQuadUvs = new Float32Array(8);
+let quadTriangles = [0, 1, 2, 0, 2, 3];
+
+/**
+ * Clipped triangles of one slot, arrays grow when they are too small and are reused every frame
+ */
+class ClippedGeometry {
+    positions = new Float32Array(0);
+    uvs = new Float32Array(0);
+    indices = new Uint16Array(0);
+    vertexCount = 0;
+    indexCount = 0;
+
+    update(clipper: SkeletonClipping) {
+        const clippedVertices = clipper.clippedVertices;
+        const clippedTriangles = clipper.clippedTriangles;
+        const count = (clippedVertices.length / 8) * 2;
+
+        this.vertexCount = count >> 1;
+        this.indexCount = clippedTriangles.length;
+        this.positions = grow(this.positions, count);
+        this.uvs = grow(this.uvs, count);
+        this.indices = grow(this.indices, this.indexCount);
+
+        const positions = this.positions;
+        const uvs = this.uvs;
+        const indices = this.indices;
+
+        for (let i = 0, s = 0; i < count; i += 2, s += 8) {
+            positions[i] = clippedVertices[s];
+            positions[i + 1] = clippedVertices[s + 1];
+            uvs[i] = clippedVertices[s + 6];
+            uvs[i + 1] = clippedVertices[s + 7];
+        }
+        for (let i = 0; i < this.indexCount; i++) {
+            indices[i] = clippedTriangles[i];
+        }
+    }
+}
 
 /**
  * @public
@@ -53,6 +110,174 @@ export class SpineMesh extends PIXI.SimpleMesh implements ISpineDisplayObject {
     }
 }
 
+const darkTintVertex = `
+attribute vec2 aVertexPosition;
+attribute vec2 aTextureCoord;
+
+uniform mat3 projectionMatrix;
+uniform mat3 translationMatrix;
+uniform mat3 uTextureMatrix;
+
+varying vec2 vTextureCoord;
+
+void main(void)
+{
+    gl_Position = vec4((projectionMatrix * translationMatrix * vec3(aVertexPosition, 1.0)).xy, 0.0, 1.0);
+    vTextureCoord = (uTextureMatrix * vec3(aTextureCoord, 1.0)).xy;
+}
+`;
+
+const darkTintFragment = `
+varying vec2 vTextureCoord;
+
+uniform vec4 uColor;
+uniform vec4 uDark;
+uniform sampler2D uSampler;
+
+void main(void)
+{
+    vec4 texColor = texture2D(uSampler, vTextureCoord);
+    gl_FragColor.a = texColor.a * uColor.a;
+    gl_FragColor.rgb = ((texColor.a - 1.0) * uDark.a + 1.0 - texColor.rgb) * uDark.rgb + texColor.rgb * uColor.rgb;
+}
+`;
+
+/**
+ * Light and dark colors of two color tint, same methods as pixi-heaven color, so {@link SpineBase} fills it the same way
+ * @public
+ */
+export class DarkTintColor {
+    light = new Float32Array([1, 1, 1]);
+    dark = new Float32Array([0, 0, 0]);
+
+    setLight(r: number, g: number, b: number) {
+        this.light[0] = r;
+        this.light[1] = g;
+        this.light[2] = b;
+    }
+
+    setDark(r: number, g: number, b: number) {
+        this.dark[0] = r;
+        this.dark[1] = g;
+        this.dark[2] = b;
+    }
+}
+
+/**
+ * Mesh material with tint black of spine: dark color replaces black of the texture, light color tints the rest.
+ * It's not batched, every object is a draw call.
+ * @public
+ */
+export class DarkTintMaterial extends PIXI.MeshMaterial {
+    color = new DarkTintColor();
+    // pixi shader has it, but typings don't
+    destroy: () => void;
+
+    constructor(texture: PIXI.Texture) {
+        super(texture, {
+            program: PIXI.Program.from(darkTintVertex, darkTintFragment),
+            uniforms: { uDark: new Float32Array([0, 0, 0, 1]) },
+        });
+    }
+
+    update() {
+        super.update();
+
+        const { light, dark } = this.color;
+        const { uColor, uDark } = this.uniforms;
+        const alpha = this.alpha;
+        const pma =
+            this.texture.baseTexture.alphaMode !== PIXI.ALPHA_MODES.NPM;
+        const mul = pma ? alpha : 1;
+
+        uColor[0] = light[0] * mul;
+        uColor[1] = light[1] * mul;
+        uColor[2] = light[2] * mul;
+        uColor[3] = alpha;
+        uDark[0] = dark[0] * mul;
+        uDark[1] = dark[1] * mul;
+        uDark[2] = dark[2] * mul;
+        uDark[3] = pma ? 1 : 0;
+    }
+}
+
+/**
+ * Sprite drawn with {@link DarkTintMaterial}, used by {@link SpineBase} for slots with dark color
+ * @public
+ */
+export class SpineDarkTintSprite extends SpineSprite {
+    color: DarkTintColor;
+    material: DarkTintMaterial;
+    // filled by calculateVertices, pixi typings don't have it
+    vertexData: Float32Array;
+    private darkGeometry: PIXI.MeshGeometry;
+    private darkState = new PIXI.State();
+    private quadUvs = new Float32Array(8);
+
+    constructor(texture: PIXI.Texture) {
+        super(texture);
+        this.material = new DarkTintMaterial(texture);
+        // vertices are already in world coordinates
+        this.material.uniforms.translationMatrix = new PIXI.Matrix().toArray(
+            true
+        );
+        this.color = this.material.color;
+        this.darkGeometry = new PIXI.MeshGeometry(
+            new Float32Array(8),
+            this.quadUvs,
+            new Uint16Array([0, 1, 2, 0, 2, 3])
+        );
+    }
+
+    protected _render(renderer: PIXI.Renderer): void {
+        const texture = this.texture;
+
+        computeQuadUvs(texture, this.quadUvs);
+        this.calculateVertices();
+        this.darkGeometry.getBuffer("aVertexPosition").update(this.vertexData);
+        this.darkGeometry.getBuffer("aTextureCoord").update(this.quadUvs);
+        this.material.texture = texture;
+        this.material.alpha = this.worldAlpha;
+        this.material.update();
+        this.darkState.blendMode = this.blendMode;
+
+        renderer.batch.flush();
+        renderer.shader.bind(this.material);
+        renderer.state.set(this.darkState);
+        renderer.geometry.bind(this.darkGeometry, this.material);
+        renderer.geometry.draw(PIXI.DRAW_MODES.TRIANGLES, 6, 0);
+    }
+
+    destroy(options?: any): void {
+        super.destroy(options);
+        this.darkGeometry.destroy();
+        this.material.destroy();
+    }
+}
+
+/**
+ * Mesh drawn with {@link DarkTintMaterial}, used by {@link SpineBase} for slots with dark color
+ * @public
+ */
+export class SpineDarkTintMesh extends SpineMesh {
+    color: DarkTintColor;
+
+    constructor(
+        texture: PIXI.Texture,
+        vertices?: Float32Array,
+        uvs?: Float32Array,
+        indices?: Uint16Array,
+        drawMode?: number
+    ) {
+        super(texture, vertices, uvs, indices, drawMode);
+
+        const material = new DarkTintMaterial(texture);
+
+        this.shader = material;
+        this.color = material.color;
+    }
+}
+
 /**
  * A class that enables the you to import and run your spine animations in pixi.
  * The Spine animation data needs to be loaded using either the Loader or a SpineLoader before it can be used by this class
@@ -85,8 +310,37 @@ export abstract class SpineBase<
     slotContainers: Array<PIXI.Container>;
     tempClipContainers: Array<PIXI.Container>;
     localDelayLimit: number;
+    /**
+     * Sprites and meshes of slots with dark color are made with {@link DarkTintMaterial}, otherwise dark color is ignored.
+     * It's set before `createSkeleton`, default is `settings.DARK_TINT`
+     */
+    darkTint: boolean;
+    /**
+     * Jitter, swirl or custom effect, it can change position, uv and colors of every vertex.
+     * Slots are drawn with {@link SpineBatch} meshes while it's set, with premultiplied textures and without pixi-heaven colors.
+     */
+    vertexEffect: IVertexEffect = null;
+    /**
+     * Clipping attachments are PIXI masks, otherwise slots they clip are drawn as meshes of triangles clipped on CPU.
+     * It's read in constructor, default is `settings.CLIPPING_MASK`
+     */
+    maskClipping: boolean;
+    /**
+     * When true, moving or rotating this container is passed to the physics constraints of the skeleton,
+     * so bones react to it the same way they react to animated movement. Only spine 4.2 skeletons have physics.
+     */
+    physicsFollowContainer = true;
+    private lastPhysicsX: number = null;
+    private lastPhysicsY: number = null;
+    private lastPhysicsRotation: number = null;
+    private clipper = new SkeletonClipping();
     private _autoUpdate: boolean;
     protected _visible: boolean;
+    private pageLoader = new RegionPageLoader((event, page) => {
+        if (!this._destroyed) {
+            this.emit(event, page);
+        }
+    });
 
     abstract createSkeleton(spineData: ISkeletonData);
 
@@ -115,6 +369,7 @@ export abstract class SpineBase<
          *
          * @member {object}
          */
+        this.darkTint = settings.DARK_TINT;
         this.createSkeleton(spineData);
 
         /**
@@ -126,6 +381,8 @@ export abstract class SpineBase<
 
         this.tempClipContainers = [];
 
+        this.maskClipping = settings.CLIPPING_MASK;
+
         for (let i = 0, n = this.skeleton.slots.length; i < n; i++) {
             let slot = this.skeleton.slots[i];
             let attachment: any = slot.getAttachment();
@@ -137,6 +394,7 @@ export abstract class SpineBase<
             if (!attachment) {
                 continue;
             }
+            applySequence(slot, attachment);
             if (attachment.type === AttachmentType.Region) {
                 let spriteName = (attachment.region as TextureAtlasRegion).name;
                 let sprite = this.createSprite(
@@ -153,7 +411,10 @@ export abstract class SpineBase<
                 slot.currentMeshId = attachment.id;
                 slot.currentMeshName = attachment.name;
                 slotContainer.addChild(mesh);
-            } else if (attachment.type === AttachmentType.Clipping) {
+            } else if (
+                attachment.type === AttachmentType.Clipping &&
+                this.maskClipping
+            ) {
                 this.createGraphics(slot, attachment);
                 slotContainer.addChild(slot.clippingContainer);
                 slotContainer.addChild(slot.currentGraphics);
@@ -236,12 +497,17 @@ export abstract class SpineBase<
         let delayLimit = this.delayLimit;
         if (dt > delayLimit) dt = delayLimit;
 
+        if (this.physicsFollowContainer) {
+            this.applyContainerMovement();
+        }
+
         this.state.update(dt);
         this.state.apply(this.skeleton);
 
         //check we haven't been destroyed via a spine event callback in state update
         if (!this.skeleton) return;
 
+        this.skeleton.update(dt);
         this.skeleton.updateWorldTransform();
 
         let slots = this.skeleton.slots;
@@ -256,6 +522,7 @@ export abstract class SpineBase<
             dark = globalClr.dark;
         } else {
             light = this.tintRgb;
+            dark = blackRgb;
         }
 
         // let thack = false;
@@ -272,6 +539,8 @@ export abstract class SpineBase<
 
             let spriteColor: any = null;
 
+            applySequence(slot, attachment);
+
             let attColor = (attachment as any).color;
             switch (attachment.type) {
                 case AttachmentType.Region:
@@ -321,7 +590,16 @@ export abstract class SpineBase<
                     }
 
                     let transform = slotContainer.transform;
-                    transform.setFromMatrix(slot.bone.matrix);
+                    let boneMatrix = slot.bone.matrix;
+                    tempMatrix.set(
+                        boneMatrix.a,
+                        boneMatrix.b,
+                        boneMatrix.c,
+                        boneMatrix.d,
+                        boneMatrix.tx,
+                        boneMatrix.ty
+                    );
+                    transform.setFromMatrix(tempMatrix);
 
                     if (slot.currentSprite.color) {
                         //YAY! double - tint!
@@ -372,6 +650,16 @@ export abstract class SpineBase<
                         slot.currentMesh = slot.meshes[meshId];
                         slot.currentMeshName = attachment.name;
                         slot.currentMeshId = meshId;
+                    } else if (
+                        (attachment as IMeshAttachment).sequence &&
+                        !slot.hackRegion
+                    ) {
+                        // sequence might have switched the region
+                        this.setMeshRegion(
+                            attachment as IMeshAttachment,
+                            slot.currentMesh,
+                            (attachment as IMeshAttachment).region
+                        );
                     }
                     (attachment as IVertexAttachment).computeWorldVerticesOld(
                         slot,
@@ -389,6 +677,10 @@ export abstract class SpineBase<
                     slot.currentMesh.blendMode = slot.blendMode;
                     break;
                 case AttachmentType.Clipping:
+                    if (!this.maskClipping) {
+                        slotContainer.visible = false;
+                        continue;
+                    }
                     if (!slot.currentGraphics) {
                         this.createGraphics(
                             slot,
@@ -441,6 +733,11 @@ export abstract class SpineBase<
             slotContainer.alpha = slot.color.a;
         }
 
+        this.updateSlotMeshes();
+        if (!this.maskClipping) {
+            return;
+        }
+
         //== this is clipping implementation ===
         //TODO: remove parent hacks when pixi masks allow it
         let drawOrder = this.skeleton.drawOrder;
@@ -496,6 +793,356 @@ export abstract class SpineBase<
         }
     }
 
+    /**
+     * Converts container movement since the last update to skeleton space
+     * and feeds it to `physicsTranslate` and `physicsRotate` of the skeleton
+     *
+     * @private
+     */
+    applyContainerMovement() {
+        const skeleton = this.skeleton;
+        const x = this.position.x;
+        const y = this.position.y;
+        const rotation = this.rotation;
+
+        if (!skeleton.physicsTranslate) {
+            return;
+        }
+        if (this.lastPhysicsX !== null) {
+            const dx = x - this.lastPhysicsX;
+            const dy = y - this.lastPhysicsY;
+
+            if (dx !== 0 || dy !== 0) {
+                const cos = Math.cos(rotation);
+                const sin = Math.sin(rotation);
+                const sx = this.scale.x || 1;
+                const sy = this.scale.y || 1;
+
+                skeleton.physicsTranslate(
+                    (dx * cos + dy * sin) / sx,
+                    (dy * cos - dx * sin) / sy
+                );
+            }
+
+            const dr = rotation - this.lastPhysicsRotation;
+
+            if (dr !== 0) {
+                skeleton.physicsRotate(
+                    this.pivot.x,
+                    this.pivot.y,
+                    dr * MathUtils.radDeg
+                );
+            }
+        }
+
+        this.lastPhysicsX = x;
+        this.lastPhysicsY = y;
+        this.lastPhysicsRotation = rotation;
+    }
+
+    /**
+     * Slots between clipping attachment and its end slot are drawn with meshes of clipped triangles,
+     * and all slots are drawn with meshes when vertex effect is set.
+     * Without mask clipping it also puts slot containers in draw order.
+     */
+    private updateSlotMeshes() {
+        const drawOrder = this.skeleton.drawOrder;
+        const clipper = this.clipper;
+        const effect = this.vertexEffect;
+        const geometryClipping = !this.maskClipping;
+
+        if (effect) {
+            effect.begin(this.skeleton);
+        }
+        for (let i = 0, n = drawOrder.length; i < n; i++) {
+            const slot = drawOrder[i];
+            const slotContainer = this.slotContainers[slot.data.index];
+            const attachment = slot.getAttachment();
+
+            if (geometryClipping) {
+                this.children[i] = slotContainer;
+            }
+            if (attachment && attachment.type === AttachmentType.Clipping) {
+                if (geometryClipping) {
+                    clipper.clipStart(slot, attachment as IClippingAttachment);
+                }
+            } else if (
+                slotContainer.visible &&
+                (effect || clipper.isClipping())
+            ) {
+                this.drawSlotMesh(slot, slotContainer);
+            } else {
+                this.hideSlotMesh(slot);
+            }
+            clipper.clipEndWithSlot(slot);
+        }
+        clipper.clipEnd();
+        if (effect) {
+            effect.end();
+        }
+    }
+
+    private drawSlotMesh(slot: ISlot, slotContainer: PIXI.Container) {
+        const clipper = this.clipper;
+        const source = slot.currentMesh || slot.currentSprite;
+        let vertices: ArrayLike<number>;
+        let uvs: ArrayLike<number>;
+        let triangles: ArrayLike<number>;
+
+        if (slot.currentMesh) {
+            vertices = slot.currentMesh.vertices;
+            uvs = slot.currentMesh.uvBuffer.data;
+            triangles = slot.currentMesh.geometry.getIndex().data;
+        } else {
+            this.computeSpriteVertices(slot, slot.currentSprite, tempQuad);
+            computeQuadUvs(slot.currentSprite.texture, tempQuadUvs);
+            vertices = tempQuad;
+            uvs = tempQuadUvs;
+            triangles = quadTriangles;
+            // mesh vertices are in skeleton coordinates
+            tempMatrix.identity();
+            slotContainer.transform.setFromMatrix(tempMatrix);
+        }
+
+        if (clipper.isClipping()) {
+            clipper.clipTriangles(
+                vertices,
+                vertices.length,
+                triangles,
+                triangles.length,
+                uvs,
+                tempLight,
+                tempDark,
+                false
+            );
+
+            let clipped: ClippedGeometry = slot.clippedGeometry;
+
+            if (!clipped) {
+                clipped = slot.clippedGeometry = new ClippedGeometry();
+            }
+            clipped.update(clipper);
+
+            const count = clipped.vertexCount * 2;
+
+            // mesh buffers upload whole arrays, so they get views of the used part
+            vertices = clipped.positions.subarray(0, count);
+            uvs = clipped.uvs.subarray(0, count);
+            triangles = clipped.indices.subarray(0, clipped.indexCount);
+        }
+
+        if (this.vertexEffect) {
+            this.updateEffectMesh(
+                slot,
+                slotContainer,
+                vertices,
+                uvs,
+                triangles
+            );
+        } else {
+            this.updateClippedMesh(
+                slot,
+                slotContainer,
+                vertices as Float32Array,
+                uvs as Float32Array,
+                triangles as Uint16Array
+            );
+        }
+        source.visible = false;
+    }
+
+    private updateClippedMesh(
+        slot: ISlot,
+        slotContainer: PIXI.Container,
+        vertices: Float32Array,
+        uvs: Float32Array,
+        triangles: Uint16Array
+    ) {
+        const source = slot.currentMesh || slot.currentSprite;
+        let clipped = slot.clippedMesh;
+
+        if (!clipped) {
+            clipped = slot.clippedMesh = this.newMesh(
+                source.texture,
+                vertices,
+                uvs,
+                triangles,
+                PIXI.DRAW_MODES.TRIANGLES,
+                slot
+            );
+            slotContainer.addChild(clipped);
+        } else {
+            clipped.texture = source.texture;
+            clipped.vertices = vertices;
+            clipped.uvBuffer.update(uvs);
+            clipped.geometry.getIndex().update(triangles);
+        }
+
+        if (source.color) {
+            const light = source.color.light;
+            const dark = source.color.dark;
+
+            clipped.color.setLight(light[0], light[1], light[2]);
+            clipped.color.setDark(dark[0], dark[1], dark[2]);
+        } else {
+            clipped.tint = source.tint;
+        }
+        clipped.blendMode = source.blendMode;
+        clipped.alpha = source.alpha;
+        clipped.visible = true;
+        if (slot.effectMesh) {
+            slot.effectMesh.visible = false;
+        }
+    }
+
+    /**
+     * Uvs are mapped to the page and colors are premultiplied before the effect, as in spine runtimes.
+     * Slot alpha is alpha of slot container, so only attachment alpha goes to vertices.
+     */
+    private updateEffectMesh(
+        slot: ISlot,
+        slotContainer: PIXI.Container,
+        vertices: ArrayLike<number>,
+        uvs: ArrayLike<number>,
+        triangles: ArrayLike<number>
+    ) {
+        const source = slot.currentMesh || slot.currentSprite;
+        const attColor = (slot.getAttachment() as IRegionAttachment).color;
+        let mesh: SpineBatch = slot.effectMesh;
+
+        if (!mesh) {
+            mesh = slot.effectMesh = new SpineBatch();
+            slotContainer.addChild(mesh);
+        }
+        mesh.begin(source.texture, slot.blendMode);
+        mesh.reserve(vertices.length >> 1, triangles.length);
+
+        const positionData = mesh.positionData;
+        const uvData = mesh.uvData;
+        const colors = mesh.colorData;
+        const darkColors = mesh.darkColorData;
+        const alpha = attColor.a;
+        const r = this.tintRgb[0] * slot.color.r * attColor.r * alpha;
+        const g = this.tintRgb[1] * slot.color.g * attColor.g * alpha;
+        const b = this.tintRgb[2] * slot.color.b * attColor.b * alpha;
+        const dark = slot.darkColor;
+
+        tempUvMatrix.texture = source.texture;
+        tempUvMatrix.update();
+
+        const map = tempUvMatrix.mapCoord;
+
+        for (let i = 0, c = 0; i < vertices.length; i += 2, c += 4) {
+            const u = uvs[i];
+            const v = uvs[i + 1];
+
+            tempPosition.x = vertices[i];
+            tempPosition.y = vertices[i + 1];
+            tempUv.x = map.a * u + map.c * v + map.tx;
+            tempUv.y = map.b * u + map.d * v + map.ty;
+            tempLight.set(r, g, b, alpha);
+            if (dark) {
+                tempDark.set(dark.r * alpha, dark.g * alpha, dark.b * alpha, 1);
+            } else {
+                tempDark.set(0, 0, 0, 1);
+            }
+            this.vertexEffect.transform(
+                tempPosition,
+                tempUv,
+                tempLight,
+                tempDark
+            );
+            positionData[i] = tempPosition.x;
+            positionData[i + 1] = tempPosition.y;
+            uvData[i] = tempUv.x;
+            uvData[i + 1] = tempUv.y;
+            colors[c] = tempLight.r;
+            colors[c + 1] = tempLight.g;
+            colors[c + 2] = tempLight.b;
+            colors[c + 3] = tempLight.a;
+            darkColors[c] = tempDark.r;
+            darkColors[c + 1] = tempDark.g;
+            darkColors[c + 2] = tempDark.b;
+            darkColors[c + 3] = tempDark.a;
+        }
+        for (let i = 0; i < triangles.length; i++) {
+            mesh.indexData[i] = triangles[i];
+        }
+        mesh.end();
+        mesh.visible = true;
+        if (slot.clippedMesh) {
+            slot.clippedMesh.visible = false;
+        }
+    }
+
+    private hideSlotMesh(slot: ISlot) {
+        const clipped = slot.clippedMesh;
+        const effectMesh = slot.effectMesh;
+        const shown =
+            (clipped && clipped.visible) || (effectMesh && effectMesh.visible);
+
+        if (!shown) {
+            return;
+        }
+        if (clipped) {
+            clipped.visible = false;
+        }
+        if (effectMesh) {
+            effectMesh.visible = false;
+        }
+
+        const source = slot.currentMesh || slot.currentSprite;
+
+        if (source) {
+            source.visible = true;
+        }
+    }
+
+    /**
+     * Corners of sprite quad in skeleton coordinates, in order of {@link PIXI.Sprite.vertexData}
+     */
+    private computeSpriteVertices(
+        slot: ISlot,
+        sprite: SpineSprite,
+        vertices: Float32Array
+    ) {
+        const texture = sprite.texture;
+        const orig = texture.orig;
+        const trim = texture.trim;
+        const anchor = sprite.anchor;
+        const boneMatrix = slot.bone.matrix;
+
+        sprite.transform.updateLocalTransform();
+
+        const lt = sprite.transform.localTransform;
+        const a = boneMatrix.a * lt.a + boneMatrix.c * lt.b;
+        const b = boneMatrix.b * lt.a + boneMatrix.d * lt.b;
+        const c = boneMatrix.a * lt.c + boneMatrix.c * lt.d;
+        const d = boneMatrix.b * lt.c + boneMatrix.d * lt.d;
+        const tx = boneMatrix.a * lt.tx + boneMatrix.c * lt.ty + boneMatrix.tx;
+        const ty = boneMatrix.b * lt.tx + boneMatrix.d * lt.ty + boneMatrix.ty;
+        let w1 = -anchor.x * orig.width;
+        let h1 = -anchor.y * orig.height;
+        let w0 = w1 + orig.width;
+        let h0 = h1 + orig.height;
+
+        if (trim) {
+            w1 += trim.x;
+            h1 += trim.y;
+            w0 = w1 + trim.width;
+            h0 = h1 + trim.height;
+        }
+
+        vertices[0] = a * w1 + c * h1 + tx;
+        vertices[1] = b * w1 + d * h1 + ty;
+        vertices[2] = a * w0 + c * h1 + tx;
+        vertices[3] = b * w0 + d * h1 + ty;
+        vertices[4] = a * w0 + c * h0 + tx;
+        vertices[5] = b * w0 + d * h0 + ty;
+        vertices[6] = a * w1 + c * h0 + tx;
+        vertices[7] = b * w1 + d * h0 + ty;
+    }
+
     private setSpriteRegion(
         attachment: IRegionAttachment,
         sprite: SpineSprite,
@@ -508,6 +1155,7 @@ export abstract class SpineBase<
 
         sprite.region = region;
         sprite.attachment = attachment;
+        this.pageLoader.load(region);
 
         sprite.texture = region.texture;
         sprite.rotation = attachment.rotation * MathUtils.degRad;
@@ -539,6 +1187,7 @@ export abstract class SpineBase<
 
         mesh.region = region;
         mesh.attachment = attachment;
+        this.pageLoader.load(region);
         mesh.texture = region.texture;
         region.texture.updateUvs();
         mesh.uvBuffer.update(attachment.regionUVs);
@@ -551,18 +1200,7 @@ export abstract class SpineBase<
      *
      * @private
      */
-    autoUpdateTransform() {
-        if (settings.GLOBAL_AUTO_UPDATE) {
-            this.lastTime = this.lastTime || Date.now();
-            let timeDelta = (Date.now() - this.lastTime) * 0.001;
-            this.lastTime = Date.now();
-            this.update(timeDelta);
-        } else {
-            this.lastTime = 0;
-        }
-
-        PIXI.Container.prototype.updateTransform.call(this);
-    }
+    autoUpdateTransform: () => void;
 
     /**
      * Create a new sprite to be used with core.RegionAttachment
@@ -577,7 +1215,7 @@ export abstract class SpineBase<
             region = slot.hackRegion;
         }
         let texture = region.texture;
-        let sprite = this.newSprite(texture);
+        let sprite = this.newSprite(texture, slot);
 
         sprite.anchor.set(0.5);
         this.setSpriteRegion(attachment, sprite, attachment.region);
@@ -605,7 +1243,8 @@ export abstract class SpineBase<
             new Float32Array(attachment.regionUVs.length),
             attachment.regionUVs,
             new Uint16Array(attachment.triangles),
-            PIXI.DRAW_MODES.TRIANGLES
+            PIXI.DRAW_MODES.TRIANGLES,
+            slot
         );
 
         if (typeof (strip as any)._canvasPadding !== "undefined") {
@@ -775,8 +1414,10 @@ export abstract class SpineBase<
         return new PIXI.Container();
     }
 
-    newSprite(tex: PIXI.Texture) {
-        return new SpineSprite(tex);
+    newSprite(tex: PIXI.Texture, slot?: ISlot) {
+        return this.darkTint && slot && slot.darkColor
+            ? new SpineDarkTintSprite(tex)
+            : new SpineSprite(tex);
     }
 
     newGraphics() {
@@ -788,9 +1429,18 @@ export abstract class SpineBase<
         vertices?: Float32Array,
         uvs?: Float32Array,
         indices?: Uint16Array,
-        drawMode?: number
+        drawMode?: number,
+        slot?: ISlot
     ) {
-        return new SpineMesh(texture, vertices, uvs, indices, drawMode);
+        return this.darkTint && slot && slot.darkColor
+            ? new SpineDarkTintMesh(
+                  texture,
+                  vertices,
+                  uvs,
+                  indices,
+                  drawMode
+              )
+            : new SpineMesh(texture, vertices, uvs, indices, drawMode);
     }
 
     transformHack() {
@@ -836,6 +1486,15 @@ export abstract class SpineBase<
                 slot.sprites[name].destroy(options);
             }
             slot.sprites = null;
+
+            if (slot.clippedMesh) {
+                slot.clippedMesh.destroy(options);
+                slot.clippedMesh = null;
+            }
+            if (slot.effectMesh) {
+                slot.effectMesh.destroy(options);
+                slot.effectMesh = null;
+            }
         }
 
         for (let i = 0, n = this.slotContainers.length; i < n; i++) {
@@ -852,6 +1511,8 @@ export abstract class SpineBase<
     }
 }
 
+SpineBase.prototype.autoUpdateTransform = autoUpdateTransform;
+
 /**
  * The visibility of the spine object. If false the object will not be drawn,
  * the updateTransform function will not be called, and the spine will not be automatically updated.
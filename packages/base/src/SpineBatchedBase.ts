@@ -0,0 +1,569 @@
+import { AttachmentType } from "./core/AttachmentType";
+import type { TextureRegion } from "./core/TextureRegion";
+import { Color, Vector2 } from "./core/Utils";
+import type { IAnimationState, IAnimationStateData } from "./core/IAnimation";
+import type {
+    IAttachment,
+    IMeshAttachment,
+    IRegionAttachment,
+    ISkeleton,
+    ISkeletonData,
+    ISlot,
+    IVertexEffect,
+} from "./core/ISkeleton";
+
+import {
+    applySequence,
+    autoUpdateTransform,
+    computeQuadUvs,
+    grow,
+    RegionPageLoader,
+} from "./helpers";
+import { settings } from "./settings";
+import * as PIXI from "pixi.js-legacy";
+
+const QUAD_TRIANGLES = [0, 1, 2, 2, 3, 0];
+// indices are 16-bit
+const MAX_BATCH_VERTICES = 65536;
+
+let tempUvMatrix = new PIXI.TextureMatrix(PIXI.Texture.EMPTY);
+let tempQuadUvs = new Float32Array(8);
+let tempPosition = new Vector2();
+let tempUv = new Vector2();
+let tempLight = new Color();
+let tempDark = new Color();
+
+const batchVertex = `
+attribute vec2 aVertexPosition;
+attribute vec2 aTextureCoord;
+attribute vec4 aColor;
+attribute vec4 aDarkColor;
+
+uniform mat3 projectionMatrix;
+uniform mat3 translationMatrix;
+
+varying vec2 vTextureCoord;
+varying vec4 vLight;
+varying vec4 vDark;
+
+void main(void)
+{
+    gl_Position = vec4((projectionMatrix * translationMatrix * vec3(aVertexPosition, 1.0)).xy, 0.0, 1.0);
+    vTextureCoord = aTextureCoord;
+    vLight = aColor;
+    vDark = aDarkColor;
+}
+`;
+
+// two color tint of spine runtimes, for premultiplied textures
+const batchFragment = `
+varying vec2 vTextureCoord;
+varying vec4 vLight;
+varying vec4 vDark;
+
+uniform sampler2D uSampler;
+uniform float uAlpha;
+
+void main(void)
+{
+    vec4 texColor = texture2D(uSampler, vTextureCoord);
+    gl_FragColor.a = texColor.a * vLight.a;
+    gl_FragColor.rgb = ((texColor.a - 1.0) * vDark.a + 1.0 - texColor.rgb) * vDark.rgb + texColor.rgb * vLight.rgb;
+    gl_FragColor *= uAlpha;
+}
+`;
+
+/**
+ * Material of {@link SpineBatch}, it takes colors from vertices instead of tint
+ * @public
+ */
+export class SpineBatchMaterial extends PIXI.MeshMaterial {
+    constructor() {
+        super(PIXI.Texture.EMPTY, {
+            program: PIXI.Program.from(batchVertex, batchFragment),
+            uniforms: { uAlpha: 1 },
+        });
+    }
+
+    update() {
+        super.update();
+        this.uniforms.uAlpha = this.alpha;
+    }
+}
+
+/**
+ * Geometry of consecutive attachments of {@link SpineBatchedBase} that have the same atlas page and blend mode.
+ * Vertices are in skeleton coordinates, colors are premultiplied.
+ * @public
+ */
+export class SpineBatch extends PIXI.Mesh {
+    baseTexture: PIXI.BaseTexture = null;
+    vertexCount = 0;
+    indexCount = 0;
+
+    positionData = new Float32Array(0);
+    uvData = new Float32Array(0);
+    colorData = new Float32Array(0);
+    darkColorData = new Float32Array(0);
+    indexData = new Uint16Array(0);
+
+    constructor() {
+        super(SpineBatch.createGeometry(), new SpineBatchMaterial());
+    }
+
+    /**
+     * Mesh geometry with light and dark colors of vertices
+     */
+    static createGeometry(): PIXI.MeshGeometry {
+        const geometry = new PIXI.MeshGeometry(
+            new Float32Array(0),
+            new Float32Array(0),
+            new Uint16Array(0)
+        );
+
+        geometry
+            .addAttribute("aColor", new PIXI.Buffer(new Float32Array(0)), 4)
+            .addAttribute(
+                "aDarkColor",
+                new PIXI.Buffer(new Float32Array(0)),
+                4
+            );
+
+        return geometry;
+    }
+
+    /**
+     * Any texture of the page can be passed, only its base texture is sampled
+     */
+    begin(texture: PIXI.Texture, blendMode: PIXI.BLEND_MODES) {
+        this.baseTexture = texture.baseTexture;
+        this.material.texture = texture;
+        this.blendMode = blendMode;
+        this.vertexCount = 0;
+        this.indexCount = 0;
+    }
+
+    /**
+     * Makes room for an attachment
+     *
+     * @returns index of its first vertex
+     */
+    reserve(vertexCount: number, indexCount: number): number {
+        const start = this.vertexCount;
+
+        this.vertexCount += vertexCount;
+        this.indexCount += indexCount;
+        this.positionData = grow(this.positionData, this.vertexCount * 2);
+        this.uvData = grow(this.uvData, this.vertexCount * 2);
+        this.colorData = grow(this.colorData, this.vertexCount * 4);
+        this.darkColorData = grow(this.darkColorData, this.vertexCount * 4);
+        this.indexData = grow(this.indexData, this.indexCount);
+
+        return start;
+    }
+
+    /**
+     * Uploads the part of arrays that is used
+     */
+    end() {
+        const geometry = this.geometry;
+        const vertexCount = this.vertexCount;
+
+        geometry
+            .getBuffer("aVertexPosition")
+            .update(this.positionData.subarray(0, vertexCount * 2));
+        geometry
+            .getBuffer("aTextureCoord")
+            .update(this.uvData.subarray(0, vertexCount * 2));
+        geometry
+            .getBuffer("aColor")
+            .update(this.colorData.subarray(0, vertexCount * 4));
+        geometry
+            .getBuffer("aDarkColor")
+            .update(this.darkColorData.subarray(0, vertexCount * 4));
+        geometry.getIndex().update(this.indexData.subarray(0, this.indexCount));
+        this.size = this.indexCount;
+    }
+}
+
+/**
+ * Renderer mode for crowds: instead of container, sprite and mesh per slot, the whole skeleton is written
+ * into one geometry per run of attachments with the same atlas page and blend mode, usually one or two draw calls.
+ * Dark color is a vertex attribute too.
+ *
+ * It has the same animation API as {@link SpineBase}, but works only with WebGL renderer and premultiplied textures.
+ * {@link SpineBatchedBase.vertexEffect} is applied to region quads too.
+ * Clipping attachments, `hackTexture*` methods and pixi-heaven colors are not supported.
+ *
+ * ```js
+ * const hero = new SpineBatched(resources.hero.spineData);
+ * hero.state.setAnimation(0, 'walk', true);
+ * ```
+ *
+ * @public
+ */
+export abstract class SpineBatchedBase<
+    Skeleton extends ISkeleton,
+    SkeletonData extends ISkeletonData,
+    AnimationState extends IAnimationState,
+    AnimationStateData extends IAnimationStateData
+> extends PIXI.Container {
+    tintRgb: ArrayLike<number>;
+    spineData: SkeletonData;
+    skeleton: Skeleton;
+    stateData: AnimationStateData;
+    state: AnimationState;
+    batches: Array<SpineBatch> = [];
+    localDelayLimit: number;
+    /**
+     * Jitter, swirl or custom effect, it can change position, uv and colors of every vertex
+     */
+    vertexEffect: IVertexEffect = null;
+    private _autoUpdate: boolean;
+    private pageLoader = new RegionPageLoader((event, page) => {
+        if (!this._destroyed) {
+            this.emit(event, page);
+        }
+    });
+
+    abstract createSkeleton(spineData: ISkeletonData);
+
+    /**
+     * Writes 4 world vertices of region attachment with stride 2, their order is the order of spine runtimes
+     */
+    abstract computeRegionVertices(
+        slot: ISlot,
+        attachment: IRegionAttachment,
+        vertices: Float32Array,
+        offset: number
+    ): void;
+
+    constructor(spineData: SkeletonData) {
+        super();
+
+        if (!spineData) {
+            throw new Error("The spineData param is required.");
+        }
+
+        this.spineData = spineData;
+        this.createSkeleton(spineData);
+        this.tintRgb = new Float32Array([1, 1, 1]);
+        this.autoUpdate = true;
+        this.updateBatches();
+    }
+
+    /**
+     * Same as {@link SpineBase.autoUpdate}
+     */
+    get autoUpdate(): boolean {
+        return this._autoUpdate;
+    }
+
+    set autoUpdate(value: boolean) {
+        if (value !== this._autoUpdate) {
+            this._autoUpdate = value;
+            this.updateTransform = value
+                ? autoUpdateTransform
+                : PIXI.Container.prototype.updateTransform;
+        }
+    }
+
+    get tint(): number {
+        return PIXI.utils.rgb2hex(this.tintRgb as any);
+    }
+
+    set tint(value: number) {
+        this.tintRgb = PIXI.utils.hex2rgb(value, this.tintRgb as any);
+    }
+
+    get delayLimit(): number {
+        let limit =
+            typeof this.localDelayLimit !== "undefined"
+                ? this.localDelayLimit
+                : settings.GLOBAL_DELAY_LIMIT;
+
+        return limit || Number.MAX_VALUE;
+    }
+
+    update(dt: number) {
+        let delayLimit = this.delayLimit;
+        if (dt > delayLimit) dt = delayLimit;
+
+        this.state.update(dt);
+        this.state.apply(this.skeleton);
+
+        //check we haven't been destroyed via a spine event callback in state update
+        if (!this.skeleton) return;
+
+        this.skeleton.update(dt);
+        this.skeleton.updateWorldTransform();
+        this.updateBatches();
+    }
+
+    /**
+     * Writes attachments of the skeleton in draw order into batches
+     */
+    updateBatches() {
+        const drawOrder = this.skeleton.drawOrder;
+        let batchCount = 0;
+        let batch: SpineBatch = null;
+
+        if (this.vertexEffect) {
+            this.vertexEffect.begin(this.skeleton);
+        }
+        for (let i = 0, n = drawOrder.length; i < n; i++) {
+            const slot = drawOrder[i];
+            const attachment = slot.getAttachment();
+
+            if (!attachment) {
+                continue;
+            }
+            applySequence(slot, attachment);
+
+            let region: TextureRegion;
+            let vertexCount: number;
+            let triangles: ArrayLike<number>;
+
+            if (attachment.type === AttachmentType.Region) {
+                region = (attachment as IRegionAttachment).region;
+                vertexCount = 4;
+                triangles = QUAD_TRIANGLES;
+            } else if (attachment.type === AttachmentType.Mesh) {
+                region = (attachment as IMeshAttachment).region;
+                vertexCount =
+                    (attachment as IMeshAttachment).worldVerticesLength >> 1;
+                triangles = (attachment as IMeshAttachment).triangles;
+            } else {
+                continue;
+            }
+            if (!region || !region.texture) {
+                continue;
+            }
+            this.pageLoader.load(region);
+
+            const baseTexture = region.texture.baseTexture;
+
+            if (
+                !batch ||
+                batch.baseTexture !== baseTexture ||
+                batch.blendMode !== slot.blendMode ||
+                batch.vertexCount + vertexCount > MAX_BATCH_VERTICES
+            ) {
+                if (batch) {
+                    batch.end();
+                }
+                batch = this.getBatch(batchCount++);
+                batch.begin(region.texture, slot.blendMode);
+            }
+
+            const indexStart = batch.indexCount;
+            const start = batch.reserve(vertexCount, triangles.length);
+
+            if (attachment.type === AttachmentType.Region) {
+                this.computeRegionVertices(
+                    slot,
+                    attachment as IRegionAttachment,
+                    batch.positionData,
+                    start * 2
+                );
+                this.writeRegionUvs(region, batch.uvData, start * 2);
+            } else {
+                const mesh = attachment as IMeshAttachment;
+
+                mesh.computeWorldVertices(
+                    slot,
+                    0,
+                    mesh.worldVerticesLength,
+                    batch.positionData,
+                    start * 2,
+                    2
+                );
+                this.writeMeshUvs(mesh, region, batch.uvData, start * 2);
+            }
+            for (let j = 0; j < triangles.length; j++) {
+                batch.indexData[indexStart + j] = start + triangles[j];
+            }
+            this.writeColors(slot, attachment, batch, start, vertexCount);
+            if (this.vertexEffect) {
+                this.applyVertexEffect(batch, start, vertexCount);
+            }
+        }
+        if (this.vertexEffect) {
+            this.vertexEffect.end();
+        }
+        if (batch) {
+            batch.end();
+        }
+        for (let i = 0; i < this.batches.length; i++) {
+            this.batches[i].visible = i < batchCount;
+        }
+    }
+
+    private getBatch(index: number): SpineBatch {
+        if (index >= this.batches.length) {
+            const batch = this.newBatch();
+
+            // batches go below other children, like debug renderer
+            this.addChildAt(batch, this.batches.length);
+            this.batches.push(batch);
+        }
+        return this.batches[index];
+    }
+
+    /**
+     * Quad vertices cover the trimmed frame, its corners are mapped to the page like uvs of meshes
+     */
+    private writeRegionUvs(
+        region: TextureRegion,
+        uvs: Float32Array,
+        offset: number
+    ) {
+        computeQuadUvs(region.texture, tempQuadUvs);
+        tempUvMatrix.texture = region.texture;
+        tempUvMatrix.update();
+
+        const map = tempUvMatrix.mapCoord;
+
+        // quad uvs start at top left, spine order is bottom left, top left, top right, bottom right
+        for (let i = 0; i < 8; i += 2) {
+            const j = (i + 6) % 8;
+            const u = tempQuadUvs[j];
+            const v = tempQuadUvs[j + 1];
+
+            uvs[offset + i] = map.a * u + map.c * v + map.tx;
+            uvs[offset + i + 1] = map.b * u + map.d * v + map.ty;
+        }
+    }
+
+    /**
+     * Region uvs of mesh are mapped to the page the same way as PIXI.Mesh does it
+     */
+    private writeMeshUvs(
+        mesh: IMeshAttachment,
+        region: TextureRegion,
+        uvs: Float32Array,
+        offset: number
+    ) {
+        const regionUVs = mesh.regionUVs;
+
+        tempUvMatrix.texture = region.texture;
+        tempUvMatrix.update();
+
+        const map = tempUvMatrix.mapCoord;
+
+        for (let i = 0; i < regionUVs.length; i += 2) {
+            const u = regionUVs[i];
+            const v = regionUVs[i + 1];
+
+            uvs[offset + i] = map.a * u + map.c * v + map.tx;
+            uvs[offset + i + 1] = map.b * u + map.d * v + map.ty;
+        }
+    }
+
+    private writeColors(
+        slot: ISlot,
+        attachment: IAttachment,
+        batch: SpineBatch,
+        start: number,
+        vertexCount: number
+    ) {
+        const light = this.tintRgb;
+        const slotColor = slot.color;
+        const attColor = (attachment as IRegionAttachment).color;
+        const alpha = slotColor.a * attColor.a;
+        const r = light[0] * slotColor.r * attColor.r * alpha;
+        const g = light[1] * slotColor.g * attColor.g * alpha;
+        const b = light[2] * slotColor.b * attColor.b * alpha;
+        const dark = slot.darkColor;
+        const darkR = dark ? dark.r * alpha : 0;
+        const darkG = dark ? dark.g * alpha : 0;
+        const darkB = dark ? dark.b * alpha : 0;
+        const colors = batch.colorData;
+        const darkColors = batch.darkColorData;
+
+        for (let i = start * 4, n = (start + vertexCount) * 4; i < n; i += 4) {
+            colors[i] = r;
+            colors[i + 1] = g;
+            colors[i + 2] = b;
+            colors[i + 3] = alpha;
+            darkColors[i] = darkR;
+            darkColors[i + 1] = darkG;
+            darkColors[i + 2] = darkB;
+            darkColors[i + 3] = 1;
+        }
+    }
+
+    /**
+     * Effect gets page uvs and premultiplied colors, as in spine runtimes
+     */
+    private applyVertexEffect(
+        batch: SpineBatch,
+        start: number,
+        vertexCount: number
+    ) {
+        const positions = batch.positionData;
+        const uvs = batch.uvData;
+        const colors = batch.colorData;
+        const darkColors = batch.darkColorData;
+
+        for (let v = start, n = start + vertexCount; v < n; v++) {
+            const i = v * 2;
+            const c = v * 4;
+
+            tempPosition.x = positions[i];
+            tempPosition.y = positions[i + 1];
+            tempUv.x = uvs[i];
+            tempUv.y = uvs[i + 1];
+            tempLight.set(
+                colors[c],
+                colors[c + 1],
+                colors[c + 2],
+                colors[c + 3]
+            );
+            tempDark.set(
+                darkColors[c],
+                darkColors[c + 1],
+                darkColors[c + 2],
+                darkColors[c + 3]
+            );
+            this.vertexEffect.transform(
+                tempPosition,
+                tempUv,
+                tempLight,
+                tempDark
+            );
+            positions[i] = tempPosition.x;
+            positions[i + 1] = tempPosition.y;
+            uvs[i] = tempUv.x;
+            uvs[i + 1] = tempUv.y;
+            colors[c] = tempLight.r;
+            colors[c + 1] = tempLight.g;
+            colors[c + 2] = tempLight.b;
+            colors[c + 3] = tempLight.a;
+            darkColors[c] = tempDark.r;
+            darkColors[c + 1] = tempDark.g;
+            darkColors[c + 2] = tempDark.b;
+            darkColors[c + 3] = tempDark.a;
+        }
+    }
+
+    protected lastTime: number;
+
+    //can be overriden to spawn different class
+    newBatch() {
+        return new SpineBatch();
+    }
+
+    destroy(options?: any): void {
+        for (let i = 0; i < this.batches.length; i++) {
+            this.batches[i].destroy();
+        }
+        this.batches = null;
+        this.spineData = null;
+        this.skeleton = null;
+        this.stateData = null;
+        this.state = null;
+
+        super.destroy(options);
+    }
+}
@@ -0,0 +1,345 @@
+import { AttachmentType } from "./core/AttachmentType";
+import { MathUtils, Vector2 } from "./core/Utils";
+import type {
+    IClippingAttachment,
+    IMeshAttachment,
+    IPathAttachment,
+    IPointAttachment,
+    IRegionAttachment,
+    ISkeleton,
+    ISkeletonBounds,
+    ISlot,
+} from "./core/ISkeleton";
+
+import * as PIXI from "pixi.js-legacy";
+
+let tempPosition = new Vector2();
+
+/**
+ * Draws bones, attachments and clipping polygons of spine object over it, to see what the rig does.
+ * Layers are switched with `draw*` flags, every layer has its own color.
+ *
+ * It's added as a child of spine object, and draws current state of the skeleton every frame:
+ * ```js
+ * const debug = new SpineDebugRenderer(hero);
+ * debug.drawMeshTriangles = false;
+ * debug.bonesColor = 0xffffff;
+ * ```
+ * @public
+ */
+export abstract class SpineDebugRendererBase extends PIXI.Graphics {
+    spine: PIXI.Container & { skeleton: ISkeleton };
+
+    drawBones = true;
+    drawRegionAttachments = true;
+    drawMeshHull = true;
+    drawMeshTriangles = true;
+    drawBoundingBoxes = true;
+    drawPaths = true;
+    drawPoints = true;
+    drawClipping = true;
+
+    bonesColor = 0xff0000;
+    boneOriginsColor = 0x00ff00;
+    regionAttachmentsColor = 0x0000ff;
+    meshHullColor = 0x0000ff;
+    meshTrianglesColor = 0xffcc00;
+    boundingBoxesColor = 0x00ff00;
+    pathsColor = 0xff7f00;
+    pointsColor = 0xff00ff;
+    clippingColor = 0xcc3300;
+
+    lineWidth = 1;
+    boneWidth = 2;
+    /**
+     * Radius of bone origins and points, in skeleton coordinates
+     */
+    markerRadius = 4;
+
+    private bounds: ISkeletonBounds = null;
+    private vertices = new Float32Array(64);
+
+    constructor(spine: PIXI.Container & { skeleton: ISkeleton }) {
+        super();
+        this.spine = spine;
+        spine.addChild(this);
+    }
+
+    abstract createSkeletonBounds(): ISkeletonBounds;
+
+    /**
+     * Writes four corners of region attachment in skeleton coordinates, runtimes compute them differently
+     */
+    abstract computeRegionVertices(
+        slot: ISlot,
+        attachment: IRegionAttachment,
+        vertices: Float32Array,
+        offset: number
+    ): void;
+
+    updateTransform() {
+        this.redraw();
+        super.updateTransform();
+    }
+
+    /**
+     * Draws enabled layers from the current state of the skeleton, it's called before every render
+     */
+    redraw() {
+        const skeleton = this.spine.skeleton;
+
+        this.clear();
+        // spine object is destroyed
+        if (!skeleton) {
+            return;
+        }
+
+        const slots = skeleton.drawOrder;
+
+        for (let i = 0, n = slots.length; i < n; i++) {
+            const slot = slots[i];
+            const attachment = slot.getAttachment();
+
+            if (!attachment) {
+                continue;
+            }
+            switch (attachment.type) {
+                case AttachmentType.Region:
+                    if (this.drawRegionAttachments) {
+                        this.renderRegion(
+                            slot,
+                            attachment as IRegionAttachment
+                        );
+                    }
+                    break;
+                case AttachmentType.Mesh:
+                    if (this.drawMeshTriangles || this.drawMeshHull) {
+                        this.renderMesh(slot, attachment as IMeshAttachment);
+                    }
+                    break;
+                case AttachmentType.Path:
+                    if (this.drawPaths) {
+                        this.renderPath(slot, attachment as IPathAttachment);
+                    }
+                    break;
+                case AttachmentType.Point:
+                    if (this.drawPoints) {
+                        this.renderPoint(slot, attachment as IPointAttachment);
+                    }
+                    break;
+                case AttachmentType.Clipping:
+                    if (this.drawClipping) {
+                        this.renderClipping(
+                            slot,
+                            attachment as IClippingAttachment
+                        );
+                    }
+                    break;
+            }
+        }
+        if (this.drawBoundingBoxes) {
+            this.renderBoundingBoxes(skeleton);
+        }
+        if (this.drawBones) {
+            this.renderBones(skeleton);
+        }
+    }
+
+    private getVertices(length: number) {
+        if (this.vertices.length < length) {
+            this.vertices = new Float32Array(length);
+        }
+
+        return this.vertices;
+    }
+
+    private renderPolygon(
+        vertices: ArrayLike<number>,
+        start: number,
+        length: number
+    ) {
+        this.moveTo(vertices[start], vertices[start + 1]);
+        for (let i = start + 2; i < start + length; i += 2) {
+            this.lineTo(vertices[i], vertices[i + 1]);
+        }
+        this.lineTo(vertices[start], vertices[start + 1]);
+    }
+
+    private renderRegion(slot: ISlot, attachment: IRegionAttachment) {
+        const vertices = this.getVertices(8);
+
+        this.computeRegionVertices(slot, attachment, vertices, 0);
+        this.lineStyle(this.lineWidth, this.regionAttachmentsColor);
+        this.renderPolygon(vertices, 0, 8);
+    }
+
+    private renderMesh(slot: ISlot, attachment: IMeshAttachment) {
+        const n = attachment.worldVerticesLength;
+        const vertices = this.getVertices(n);
+
+        attachment.computeWorldVertices(slot, 0, n, vertices, 0, 2);
+        if (this.drawMeshTriangles) {
+            const triangles = attachment.triangles;
+
+            this.lineStyle(this.lineWidth, this.meshTrianglesColor);
+            for (let i = 0; i < triangles.length; i += 3) {
+                const v1 = triangles[i] * 2;
+                const v2 = triangles[i + 1] * 2;
+                const v3 = triangles[i + 2] * 2;
+
+                this.moveTo(vertices[v1], vertices[v1 + 1]);
+                this.lineTo(vertices[v2], vertices[v2 + 1]);
+                this.lineTo(vertices[v3], vertices[v3 + 1]);
+                this.lineTo(vertices[v1], vertices[v1 + 1]);
+            }
+        }
+        if (this.drawMeshHull && attachment.hullLength > 0) {
+            this.lineStyle(this.lineWidth, this.meshHullColor);
+            this.renderPolygon(vertices, 0, attachment.hullLength);
+        }
+    }
+
+    private renderPath(slot: ISlot, attachment: IPathAttachment) {
+        let n = attachment.worldVerticesLength;
+        const vertices = this.getVertices(n);
+
+        attachment.computeWorldVertices(slot, 0, n, vertices, 0, 2);
+        this.lineStyle(this.lineWidth, this.pathsColor);
+
+        // every curve point has two handles, first and last handles are used only by closed paths
+        let x1 = vertices[2];
+        let y1 = vertices[3];
+
+        if (attachment.closed) {
+            this.renderCurve(
+                vertices[n - 4],
+                vertices[n - 3],
+                vertices[n - 2],
+                vertices[n - 1],
+                vertices[0],
+                vertices[1],
+                x1,
+                y1
+            );
+        }
+        n -= 4;
+        for (let i = 4; i < n; i += 6) {
+            const x2 = vertices[i + 4];
+            const y2 = vertices[i + 5];
+
+            this.renderCurve(
+                x1,
+                y1,
+                vertices[i],
+                vertices[i + 1],
+                vertices[i + 2],
+                vertices[i + 3],
+                x2,
+                y2
+            );
+            x1 = x2;
+            y1 = y2;
+        }
+    }
+
+    private renderCurve(
+        x1: number,
+        y1: number,
+        cx1: number,
+        cy1: number,
+        cx2: number,
+        cy2: number,
+        x2: number,
+        y2: number
+    ) {
+        this.moveTo(x1, y1);
+        this.bezierCurveTo(cx1, cy1, cx2, cy2, x2, y2);
+        // handles
+        this.moveTo(x1, y1);
+        this.lineTo(cx1, cy1);
+        this.moveTo(x2, y2);
+        this.lineTo(cx2, cy2);
+    }
+
+    private renderPoint(slot: ISlot, attachment: IPointAttachment) {
+        const position = attachment.computeWorldPosition(
+            slot.bone,
+            tempPosition
+        );
+        const rotation =
+            attachment.computeWorldRotation(slot.bone) * MathUtils.degRad;
+        const radius = this.markerRadius;
+
+        this.lineStyle(this.lineWidth, this.pointsColor);
+        this.drawCircle(position.x, position.y, radius);
+        this.moveTo(position.x, position.y);
+        this.lineTo(
+            position.x + Math.cos(rotation) * radius * 2,
+            position.y + Math.sin(rotation) * radius * 2
+        );
+    }
+
+    private renderClipping(slot: ISlot, attachment: IClippingAttachment) {
+        const n = attachment.worldVerticesLength;
+        const vertices = this.getVertices(n);
+
+        attachment.computeWorldVertices(slot, 0, n, vertices, 0, 2);
+        this.lineStyle(this.lineWidth, this.clippingColor);
+        this.renderPolygon(vertices, 0, n);
+    }
+
+    private renderBoundingBoxes(skeleton: ISkeleton) {
+        if (!this.bounds) {
+            this.bounds = this.createSkeletonBounds();
+        }
+
+        const bounds = this.bounds;
+
+        bounds.update(skeleton, true);
+        if (bounds.polygons.length === 0) {
+            return;
+        }
+        this.lineStyle(this.lineWidth, this.boundingBoxesColor, 0.5);
+        this.drawRect(
+            bounds.minX,
+            bounds.minY,
+            bounds.maxX - bounds.minX,
+            bounds.maxY - bounds.minY
+        );
+        this.lineStyle(this.lineWidth, this.boundingBoxesColor);
+        for (let i = 0; i < bounds.polygons.length; i++) {
+            const polygon = bounds.polygons[i];
+
+            this.renderPolygon(polygon, 0, polygon.length);
+        }
+    }
+
+    private renderBones(skeleton: ISkeleton) {
+        const bones = skeleton.bones;
+
+        this.lineStyle(this.boneWidth, this.bonesColor);
+        for (let i = 0; i < bones.length; i++) {
+            const bone = bones[i];
+            const length = bone.data.length;
+
+            if (length > 0) {
+                const matrix = bone.matrix;
+
+                this.moveTo(bone.worldX, bone.worldY);
+                this.lineTo(
+                    bone.worldX + length * matrix.a,
+                    bone.worldY + length * matrix.b
+                );
+            }
+        }
+
+        this.lineStyle(0);
+        this.beginFill(this.boneOriginsColor);
+        for (let i = 0; i < bones.length; i++) {
+            const bone = bones[i];
+
+            this.drawCircle(bone.worldX, bone.worldY, this.markerRadius);
+        }
+        this.endFill();
+    }
+}
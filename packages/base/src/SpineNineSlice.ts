@@ -0,0 +1,52 @@
+import type { TextureAtlasRegion } from "./core/TextureAtlas";
+
+import * as PIXI from "pixi.js-legacy";
+
+/**
+ * Nine-slice plane made from atlas region with `split` field, for UI panels packed into spine atlas.
+ *
+ * ```js
+ * const panel = new SpineNineSlice(atlas.findRegion('panel'));
+ * panel.width = 300;
+ * panel.height = 200;
+ * const content = panel.getContentBounds();
+ * ```
+ *
+ * @public
+ */
+export class SpineNineSlice extends PIXI.NineSlicePlane {
+    region: TextureAtlasRegion;
+
+    /**
+     * Content padding in texture units: left, right, top, bottom.
+     * Regions without `pad` field use their split, as spine and libgdx do.
+     */
+    pad: number[];
+
+    constructor(region: TextureAtlasRegion) {
+        const resolution = region.texture.baseTexture.resolution;
+        const toTexture = (values: number[]) =>
+            values
+                ? values.map((value) => value / resolution)
+                : [0, 0, 0, 0];
+        const split = toTexture(region.split);
+
+        super(region.texture, split[0], split[2], split[1], split[3]);
+        this.region = region;
+        this.pad = region.pad ? toTexture(region.pad) : split;
+    }
+
+    /**
+     * Area inside the padding at current width and height, in local coordinates
+     */
+    getContentBounds(rect = new PIXI.Rectangle()): PIXI.Rectangle {
+        const pad = this.pad;
+
+        rect.x = pad[0];
+        rect.y = pad[2];
+        rect.width = Math.max(0, this.width - pad[0] - pad[1]);
+        rect.height = Math.max(0, this.height - pad[2] - pad[3]);
+
+        return rect;
+    }
+}
@@ -0,0 +1,14 @@
+export * from './core/AttachmentType';
+export * from './core/BinaryInput';
+export * from './core/BinaryOutput';
+export * from './core/IAnimation';
+export * from './core/IConstraint';
+export * from './core/ISkeleton';
+export * from './core/SkeletonClipping';
+export * from './core/SkeletonDataPacker';
+export * from './core/TextureAtlasData';
+export * from './core/TextureRegion';
+export * from './core/Triangulator';
+export * from './core/Utils';
+
+export * from './settings';
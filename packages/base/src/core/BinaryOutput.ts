@@ -0,0 +1,115 @@
+/**
+ * Writes values in the encoding that {@link BinaryInput} reads.
+ * @public
+ */
+export class BinaryOutput {
+    private buffer: DataView;
+    private index = 0;
+
+    constructor (public strings = new Array<string>(), initialSize = 1024) {
+        this.buffer = new DataView(new ArrayBuffer(initialSize));
+    }
+
+    private require (byteCount: number) {
+        let size = this.buffer.byteLength;
+        if (this.index + byteCount <= size) return;
+        while (size < this.index + byteCount) size *= 2;
+        let buffer = new Uint8Array(size);
+        buffer.set(new Uint8Array(this.buffer.buffer, 0, this.index));
+        this.buffer = new DataView(buffer.buffer);
+    }
+
+    writeByte (value: number) {
+        this.require(1);
+        this.buffer.setInt8(this.index++, value);
+    }
+
+    writeUnsignedByte (value: number) {
+        this.require(1);
+        this.buffer.setUint8(this.index++, value);
+    }
+
+    writeShort (value: number) {
+        this.require(2);
+        this.buffer.setInt16(this.index, value);
+        this.index += 2;
+    }
+
+    writeInt32 (value: number) {
+        this.require(4);
+        this.buffer.setInt32(this.index, value);
+        this.index += 4;
+    }
+
+    writeInt (value: number, optimizePositive: boolean) {
+        if (!optimizePositive) value = (value << 1) ^ (value >> 31);
+        value >>>= 0;
+        while (value > 0x7F) {
+            this.writeUnsignedByte((value & 0x7F) | 0x80);
+            value >>>= 7;
+        }
+        this.writeUnsignedByte(value);
+    }
+
+    /** Writes index of the string in {@link #strings}, the string is added there if it's not present yet. */
+    writeStringRef (value: string) {
+        if (value == null) {
+            this.writeInt(0, true);
+            return;
+        }
+        let index = this.strings.indexOf(value);
+        if (index < 0) {
+            index = this.strings.length;
+            this.strings.push(value);
+        }
+        this.writeInt(index + 1, true);
+    }
+
+    writeString (value: string) {
+        if (value == null) {
+            this.writeInt(0, true);
+            return;
+        }
+        let byteCount = 0;
+        for (let i = 0; i < value.length; i++) {
+            let c = value.charCodeAt(i);
+            byteCount += c < 0x80 ? 1 : c < 0x800 ? 2 : 3;
+        }
+        this.writeInt(byteCount + 1, true);
+        for (let i = 0; i < value.length; i++) {
+            let c = value.charCodeAt(i);
+            if (c < 0x80) {
+                this.writeUnsignedByte(c);
+            } else if (c < 0x800) {
+                this.writeUnsignedByte(0xC0 | c >> 6);
+                this.writeUnsignedByte(0x80 | c & 0x3F);
+            } else {
+                this.writeUnsignedByte(0xE0 | c >> 12);
+                this.writeUnsignedByte(0x80 | c >> 6 & 0x3F);
+                this.writeUnsignedByte(0x80 | c & 0x3F);
+            }
+        }
+    }
+
+    writeFloat (value: number) {
+        this.require(4);
+        this.buffer.setFloat32(this.index, value);
+        this.index += 4;
+    }
+
+    writeBoolean (value: boolean) {
+        this.writeByte(value ? 1 : 0);
+    }
+
+    /** Appends everything that was written to another output. */
+    writeBytes (bytes: Uint8Array) {
+        this.require(bytes.length);
+        new Uint8Array(this.buffer.buffer).set(bytes, this.index);
+        this.index += bytes.length;
+    }
+
+    /** Returns the written bytes. */
+    toUint8Array (): Uint8Array {
+        return new Uint8Array(this.buffer.buffer.slice(0, this.index));
+    }
+}
@@ -5,8 +5,9 @@ import {
     IPathConstraintData,
     ITransformConstraintData,
 } from "./IConstraint";
-import type { Color, Vector2, Map } from "./Utils";
+import type { Color, Vector2, Map, Matrix } from "./Utils";
 import type { TextureRegion } from "./TextureRegion";
+import type { SkeletonValidator } from "./SkeletonValidator";
 
 // This enum was moved from BoneData.ts of spine 3.7, 3.8 and 4.0
 
@@ -25,8 +26,10 @@ export enum TransformMode {
  * @public
  */
 export interface IBone {
-    data: { name: string };
-    matrix: PIXI.Matrix;
+    data: { name: string; length: number };
+    matrix: Matrix;
+    worldX: number;
+    worldY: number;
 }
 
 /**
@@ -72,12 +75,36 @@ export interface IClippingAttachment extends IVertexAttachment {
     endSlot?: ISlotData;
 }
 
+/**
+ * Attachment that can swap its region, spine 4.1 sequences use it
+ * @public
+ */
+export interface IHasTextureRegion {
+    path: string;
+    region: TextureRegion;
+    color: Color;
+    sequence: ISequence;
+    updateRegion(): void;
+}
+
+/**
+ * List of regions shown one after another, available since spine 4.1
+ * @public
+ */
+export interface ISequence {
+    id: number;
+    regions: TextureRegion[];
+    setupIndex: number;
+    apply(slot: ISlot, attachment: IHasTextureRegion): void;
+}
+
 /**
  * @public
  */
 export interface IRegionAttachment extends IAttachment {
     region: TextureRegion;
     color: Color;
+    sequence?: ISequence;
     x;
     y;
     scaleX;
@@ -95,8 +122,43 @@ export interface IMeshAttachment extends IVertexAttachment {
     color: Color;
     regionUVs: Float32Array;
     triangles: number[];
+    /**
+     * Number of world vertex components of the hull, hull vertices go first
+     */
+    hullLength: number;
+    sequence?: ISequence;
+}
+
+/**
+ * @public
+ */
+export interface IPathAttachment extends IVertexAttachment {
+    closed: boolean;
+}
+
+/**
+ * @public
+ */
+export interface IPointAttachment extends IAttachment {
+    computeWorldPosition(bone: IBone, point: Vector2): Vector2;
+    /**
+     * Degrees
+     */
+    computeWorldRotation(bone: IBone): number;
 }
 
+/**
+ * Blend modes of spine slots, values are the same as in PIXI.BLEND_MODES,
+ * so parsers don't need PIXI global to read them
+ * @public
+ */
+export const BlendModes = {
+    NORMAL: 0 as PIXI.BLEND_MODES,
+    ADD: 1 as PIXI.BLEND_MODES,
+    MULTIPLY: 2 as PIXI.BLEND_MODES,
+    SCREEN: 3 as PIXI.BLEND_MODES,
+};
+
 /**
  * @public
  */
@@ -150,6 +212,9 @@ export interface ISlot {
 
     currentGraphics?: any;
     clippingContainer?: any;
+    clippedMesh?: any;
+    clippedGeometry?: any;
+    effectMesh?: any;
 
     hackRegion?: TextureRegion;
     hackAttachment?: IAttachment;
@@ -170,6 +235,7 @@ export interface ISkeleton<
     skin: Skin;
     data: SkeletonData;
     updateWorldTransform(): void;
+    update(delta: number): void;
     setToSetupPose(): void;
     findSlotIndex(slotName: string): number;
     getAttachmentByName(slotName: string, attachmentName: string): IAttachment;
@@ -183,6 +249,34 @@ export interface ISkeleton<
     setSkinByName(skinName: string): void;
     setAttachment(slotName: string, attachmentName: string): void;
     getBounds(offset: Vector2, size: Vector2, temp: Array<number>): void;
+
+    // spine 4.2 physics
+    physicsTranslate?(x: number, y: number): void;
+    physicsRotate?(x: number, y: number, degrees: number): void;
+}
+
+/**
+ * Same as SkeletonBounds of runtimes, it collects world polygons of visible bounding box attachments
+ * @public
+ */
+export interface ISkeletonBounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    boundingBoxes: IVertexAttachment[];
+    polygons: ArrayLike<number>[];
+    update(skeleton: ISkeleton, updateAabb: boolean): void;
+}
+
+/**
+ * Same as VertexEffect of runtimes, JitterEffect and SwirlEffect implement it
+ * @public
+ */
+export interface IVertexEffect {
+    begin(skeleton: ISkeleton): void;
+    transform(position: Vector2, uv: Vector2, light: Color, dark: Color): void;
+    end(): void;
 }
 
 /**
@@ -190,6 +284,14 @@ export interface ISkeleton<
  */
 export interface ISkeletonParser {
     scale: number;
+    /**
+     * Parsers of several runtimes convert old skeletons to the newest data model they support
+     */
+    upgradeData?: boolean;
+    /**
+     * Loaders pass it to AtlasAttachmentLoader, see {@link SkeletonValidator}
+     */
+    validator?: SkeletonValidator;
 }
 
 /**
@@ -0,0 +1,77 @@
+import { TextureAtlas } from "./TextureAtlas";
+
+/**
+ * Region that was found in several atlases of {@link MultiTextureAtlas}
+ * @public
+ */
+export interface IRegionCollision {
+    /**
+     * Name of the region
+     */
+    name: string;
+    /**
+     * Index of the atlas that is used for this region
+     */
+    used: number;
+    /**
+     * Indices of the atlases that have the same region, but lost by priority
+     */
+    ignored: number[];
+}
+
+/**
+ * Atlas that combines pages and regions of several atlases.
+ * Regions are searched in priority order: if the same region name is present in several atlases, the first one wins.
+ * Pass it to AtlasAttachmentLoader of any runtime to resolve attachments from all the atlases.
+ * @public
+ */
+export class MultiTextureAtlas extends TextureAtlas {
+    /**
+     * Source atlases, in priority order
+     */
+    atlases: TextureAtlas[];
+
+    /**
+     * Regions that are present in more than one atlas
+     */
+    collisions: IRegionCollision[] = [];
+
+    constructor(atlases: TextureAtlas[]) {
+        super();
+        this.atlases = atlases;
+
+        const found: { [name: string]: IRegionCollision } = {};
+
+        for (let i = 0; i < atlases.length; i++) {
+            const atlas = atlases[i];
+
+            this.placeholder = this.placeholder || atlas.placeholder;
+
+            for (let j = 0; j < atlas.pages.length; j++) {
+                if (this.pages.indexOf(atlas.pages[j]) < 0) {
+                    this.pages.push(atlas.pages[j]);
+                }
+            }
+            for (let j = 0; j < atlas.regions.length; j++) {
+                const region = atlas.regions[j];
+                const collision = found[region.name];
+
+                if (!collision) {
+                    found[region.name] = {
+                        name: region.name,
+                        used: i,
+                        ignored: [],
+                    };
+                    this.regions.push(region);
+                } else if (collision.used === i) {
+                    this.regions.push(region);
+                } else if (collision.ignored.indexOf(i) < 0) {
+                    if (collision.ignored.length === 0) {
+                        this.collisions.push(collision);
+                    }
+                    collision.ignored.push(i);
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,128 @@
+import type { ISkeletonData } from "./ISkeleton";
+import type { StringMap } from "./Utils";
+
+/**
+ * Skeleton data prepared by {@link SkeletonDataPacker.pack} for `postMessage`.
+ * Structured clone keeps shared references and typed arrays, but objects lose their classes,
+ * so class instances are listed together with names of their classes.
+ * @public
+ */
+export interface IPackedSkeletonData {
+    version: string;
+    root: any;
+    objects: any[];
+    classNames: string[];
+}
+
+/**
+ * Moves skeleton data between threads. Worker packs parsed data: timeline frames, curves and mesh vertices
+ * stay typed arrays and their buffers are transferred. Main thread restores classes of the objects in place,
+ * without walking the data again.
+ *
+ * Both sides need the same classes by their export names:
+ * ```js
+ * const packer = new SkeletonDataPacker({ ...PIXI.spine, ...PIXI.spine40 });
+ * ```
+ * @public
+ */
+export class SkeletonDataPacker {
+    classes: StringMap<Function>;
+
+    constructor(classes: StringMap<Function>) {
+        this.classes = classes;
+    }
+
+    /**
+     * Lists class instances and typed array buffers of skeleton data, the data itself is sent as is.
+     *
+     * @param exclude - objects that should not be sent, references to them become null
+     * @returns packed data and buffers for the transfer list of `postMessage`
+     */
+    pack(
+        skeletonData: ISkeletonData,
+        exclude: any[] = []
+    ): { packed: IPackedSkeletonData; transfer: ArrayBuffer[] } {
+        const names = new Map<Function, string>();
+        const visited = new Set<any>();
+        const objects: any[] = [];
+        const classNames: string[] = [];
+        const transfer: ArrayBuffer[] = [];
+        const stack: any[] = [skeletonData];
+
+        for (const name in this.classes) {
+            const ctor = this.classes[name];
+
+            if (typeof ctor === "function" && !names.has(ctor)) {
+                names.set(ctor, name);
+            }
+        }
+
+        visited.add(skeletonData);
+        while (stack.length > 0) {
+            const obj = stack.pop();
+
+            if (ArrayBuffer.isView(obj)) {
+                // views of one buffer are transferred together
+                if (!visited.has(obj.buffer)) {
+                    visited.add(obj.buffer);
+                    transfer.push(obj.buffer);
+                }
+                continue;
+            }
+            if (!Array.isArray(obj) && obj.constructor !== Object) {
+                const name = names.get(obj.constructor);
+
+                if (!name) {
+                    throw new Error(
+                        `Can't pack skeleton data, class ${obj.constructor.name} is not known`
+                    );
+                }
+                objects.push(obj);
+                classNames.push(name);
+            }
+            for (const key in obj) {
+                const value = obj[key];
+
+                if (value === null || typeof value !== "object") {
+                    continue;
+                }
+                if (exclude.indexOf(value) >= 0) {
+                    obj[key] = null;
+                } else if (!visited.has(value)) {
+                    visited.add(value);
+                    stack.push(value);
+                }
+            }
+        }
+
+        return {
+            packed: {
+                version: skeletonData.version,
+                root: skeletonData,
+                objects,
+                classNames,
+            },
+            transfer,
+        };
+    }
+
+    /**
+     * Restores classes of objects received from {@link SkeletonDataPacker.pack}
+     */
+    unpack(packed: IPackedSkeletonData): ISkeletonData {
+        const { objects, classNames } = packed;
+
+        for (let i = 0; i < objects.length; i++) {
+            const ctor = this.classes[classNames[i]];
+
+            if (!ctor) {
+                throw new Error(
+                    `Can't unpack skeleton data, class ${classNames[i]} is not known`
+                );
+            }
+            Object.setPrototypeOf(objects[i], ctor.prototype);
+        }
+
+        return packed.root;
+    }
+}
@@ -0,0 +1,198 @@
+import {
+    TextureAtlas,
+    TextureAtlasPage,
+    TextureAtlasRegion,
+} from "./TextureAtlas";
+import type { ISkeletonData } from "./ISkeleton";
+
+/**
+ * Region or mesh attachment whose path is not found in the atlas
+ * @public
+ */
+export interface IMissingRegion {
+    skin: string;
+    slot: string;
+    attachment: string;
+    /**
+     * Name of the region that was searched in the atlas
+     */
+    path: string;
+}
+
+/**
+ * Atlas page whose size in atlas file differs from the size of loaded texture
+ * @public
+ */
+export interface IPageSizeMismatch {
+    page: string;
+    width: number;
+    height: number;
+    textureWidth: number;
+    textureHeight: number;
+}
+
+/**
+ * Validation mode of skeleton parsers. Pass it to AtlasAttachmentLoader of any runtime: regions that are not
+ * found in the atlas are reported here instead of throwing `Region not found in atlas`,
+ * their attachments get empty placeholder regions, so the whole skeleton can be read.
+ *
+ * Call {@link SkeletonValidator.finish} with parsed skeleton data to complete the report.
+ * @public
+ */
+export class SkeletonValidator {
+    /**
+     * Attachments with missing regions are removed from their skins,
+     * otherwise loaders fail with the report after the whole skeleton is read
+     */
+    skipMissingAttachments = false;
+
+    missingRegions: IMissingRegion[] = [];
+
+    pageSizeMismatches: IPageSizeMismatch[] = [];
+
+    private placeholders: TextureAtlasRegion[] = [];
+
+    /**
+     * True if nothing was reported
+     */
+    get valid() {
+        return (
+            this.missingRegions.length === 0 &&
+            this.pageSizeMismatches.length === 0
+        );
+    }
+
+    /**
+     * Called by AtlasAttachmentLoader when region is not in the atlas
+     *
+     * @param texture - {@link TextureAtlas.placeholder}, empty texture is used if there's none
+     * @returns placeholder region for the attachment, skin and slot are found by it in {@link SkeletonValidator.finish}
+     */
+    addMissingRegion(
+        attachmentName: string,
+        path: string,
+        texture: PIXI.Texture = null
+    ): TextureAtlasRegion {
+        const region = new TextureAtlasRegion();
+
+        region.name = path;
+        region.texture = texture || PIXI.Texture.EMPTY;
+        region.placeholder = true;
+        this.missingRegions.push({
+            skin: null,
+            slot: null,
+            attachment: attachmentName,
+            path,
+        });
+        this.placeholders.push(region);
+
+        return region;
+    }
+
+    /**
+     * Fills skin and slot names of missing regions, removes their attachments if
+     * {@link SkeletonValidator.skipMissingAttachments} is set and checks atlas pages if the atlas is passed.
+     */
+    finish(skeletonData: ISkeletonData, atlas?: TextureAtlas) {
+        for (let i = 0; i < skeletonData.skins.length; i++) {
+            const skin = skeletonData.skins[i];
+
+            for (
+                let slotIndex = 0;
+                slotIndex < skin.attachments.length;
+                slotIndex++
+            ) {
+                const attachments = skin.attachments[slotIndex];
+
+                for (const name in attachments) {
+                    const attachment: any = attachments[name];
+                    const sequence = attachment.sequence;
+                    let found = false;
+
+                    for (let j = 0; j < this.placeholders.length; j++) {
+                        const placeholder = this.placeholders[j];
+
+                        if (
+                            attachment.region !== placeholder &&
+                            !(
+                                sequence &&
+                                sequence.regions.indexOf(placeholder) >= 0
+                            )
+                        ) {
+                            continue;
+                        }
+                        // the same attachment can be added to several skins, the first one is reported
+                        const missing = this.missingRegions[j];
+
+                        if (missing.skin === null) {
+                            missing.skin = skin.name;
+                            missing.slot = skeletonData.slots[slotIndex].name;
+                            missing.attachment = name;
+                        }
+                        found = true;
+                    }
+                    if (found && this.skipMissingAttachments) {
+                        delete attachments[name];
+                    }
+                }
+            }
+        }
+
+        if (atlas) {
+            this.checkAtlas(atlas);
+        }
+    }
+
+    /**
+     * Compares page sizes from atlas file with textures. Lazy pages that are not loaded yet are not checked.
+     */
+    checkAtlas(atlas: TextureAtlas) {
+        const checked: TextureAtlasPage[] = [];
+
+        for (let i = 0; i < atlas.pages.length; i++) {
+            const page = atlas.pages[i];
+            const baseTexture = page.baseTexture;
+
+            if (checked.indexOf(page) >= 0) {
+                continue;
+            }
+            checked.push(page);
+            if (!page.loaded || !baseTexture || !baseTexture.valid) {
+                continue;
+            }
+            if (
+                page.width !== baseTexture.realWidth ||
+                page.height !== baseTexture.realHeight
+            ) {
+                this.pageSizeMismatches.push({
+                    page: page.name,
+                    width: page.width,
+                    height: page.height,
+                    textureWidth: baseTexture.realWidth,
+                    textureHeight: baseTexture.realHeight,
+                });
+            }
+        }
+    }
+
+    toString() {
+        const lines: string[] = [];
+
+        for (let i = 0; i < this.missingRegions.length; i++) {
+            const missing = this.missingRegions[i];
+
+            lines.push(
+                `Region not found in atlas: ${missing.path} (skin: ${missing.skin}, slot: ${missing.slot}, attachment: ${missing.attachment})`
+            );
+        }
+        for (let i = 0; i < this.pageSizeMismatches.length; i++) {
+            const mismatch = this.pageSizeMismatches[i];
+
+            lines.push(
+                `Atlas page ${mismatch.page} has size ${mismatch.width}x${mismatch.height}, but its texture is ${mismatch.textureWidth}x${mismatch.textureHeight}`
+            );
+        }
+
+        return lines.join("\n");
+    }
+}
@@ -3,27 +3,92 @@ import {
     TextureWrap,
     TextureFilter,
     filterFromString,
+    wrapFromString,
 } from "./TextureRegion";
+import { TextureAtlasData, TextureAtlasRegionData } from "./TextureAtlasData";
 import { Map, Disposable } from "./Utils";
 
-class RegionFields {
-    x = 0;
-    y = 0;
-    width = 0;
-    height = 0;
-    offsetX = 0;
-    offsetY = 0;
-    originalWidth = 0;
-    originalHeight = 0;
-    rotate = 0;
-    index = 0;
+function removeExtension(name: string) {
+    return name.indexOf(".") !== -1
+        ? name.substr(0, name.lastIndexOf("."))
+        : name;
 }
+
+/**
+ * @public
+ */
+export interface ITextureAtlasOptions {
+    /**
+     * Pages get placeholder textures, real textures are loaded by {@link TextureAtlasPage.load}
+     */
+    lazy?: boolean;
+    /**
+     * Resolution of page textures, overrides the one that texture loader gives
+     */
+    resolution?: number;
+    /**
+     * Regions of pages that fail to load show this texture instead of failing the atlas,
+     * `true` generates a checkerboard, see {@link TextureAtlas.placeholder}
+     */
+    placeholder?: PIXI.Texture | boolean;
+    /**
+     * Overrides filters and wraps from atlas file, by page name
+     */
+    pageSettings?: Map<ITextureAtlasPageSettings>;
+}
+
+/**
+ * Filters and wraps of atlas page, values are enums or names as they are written in atlas file
+ * @public
+ */
+export interface ITextureAtlasPageSettings {
+    minFilter?: TextureFilter | string;
+    magFilter?: TextureFilter | string;
+    uWrap?: TextureWrap | string;
+    vWrap?: TextureWrap | string;
+}
+
+let checkerboard: PIXI.Texture = null;
+
+/**
+ * Magenta and black checkerboard, stretched over the region it stands for
+ */
+function getCheckerboardTexture(): PIXI.Texture {
+    if (!checkerboard) {
+        const size = 64;
+        const cell = 8;
+        const canvas = document.createElement("canvas");
+        canvas.width = canvas.height = size;
+        const context = canvas.getContext("2d");
+        context.fillStyle = "#000000";
+        context.fillRect(0, 0, size, size);
+        context.fillStyle = "#ff00ff";
+        for (let y = 0; y < size; y += cell) {
+            for (let x = (y / cell) % 2 ? cell : 0; x < size; x += cell * 2) {
+                context.fillRect(x, y, cell, cell);
+            }
+        }
+        checkerboard = PIXI.Texture.from(canvas);
+    }
+    return checkerboard;
+}
+
+type TextureLoader = (
+    path: string,
+    loaderFunction: (tex: PIXI.BaseTexture) => any
+) => any;
+
 /**
  * @public
  */
 export class TextureAtlas implements Disposable {
     pages = new Array<TextureAtlasPage>();
     regions = new Array<TextureAtlasRegion>();
+    /**
+     * Texture for regions of failed pages and for missing regions, null if they are errors.
+     * Placeholder regions keep their size and have {@link TextureAtlasRegion.placeholder} set.
+     */
+    placeholder: PIXI.Texture = null;
 
     constructor(
         atlasText?: string,
@@ -31,14 +96,19 @@ export class TextureAtlas implements Disposable {
             path: string,
             loaderFunction: (tex: PIXI.BaseTexture) => any
         ) => any,
-        callback?: (obj: TextureAtlas) => any
+        callback?: (obj: TextureAtlas) => any,
+        options?: ITextureAtlasOptions
     ) {
         if (atlasText) {
-            this.addSpineAtlas(atlasText, textureLoader, callback);
+            this.addSpineAtlas(atlasText, textureLoader, callback, options);
         }
     }
 
-    addTexture(name: string, texture: PIXI.Texture) {
+    /**
+     * Adds region, its page is found by base texture or made with `pageName`.
+     * Pages without given name are named after texture file, see {@link TextureAtlas.toAtlasText}
+     */
+    addTexture(name: string, texture: PIXI.Texture, pageName?: string) {
         let pages = this.pages;
         let page: TextureAtlasPage = null;
         for (let i = 0; i < pages.length; i++) {
@@ -48,9 +118,9 @@ export class TextureAtlas implements Disposable {
             }
         }
         if (page === null) {
-            page = new TextureAtlasPage();
-            page.name = "texturePage";
             let baseTexture = texture.baseTexture;
+            page = new TextureAtlasPage();
+            page.name = pageName || this.uniquePageName(baseTexture);
             page.width = baseTexture.realWidth;
             page.height = baseTexture.realHeight;
             page.baseTexture = baseTexture;
@@ -69,28 +139,131 @@ export class TextureAtlas implements Disposable {
         return region;
     }
 
-    addTextureHash(textures: Map<PIXI.Texture>, stripExtension: boolean) {
+    /**
+     * Adds every texture as a region, `pageName` is meant for textures of one base texture
+     */
+    addTextureHash(
+        textures: Map<PIXI.Texture>,
+        stripExtension: boolean,
+        pageName?: string
+    ) {
         for (let key in textures) {
             if (textures.hasOwnProperty(key)) {
                 this.addTexture(
-                    stripExtension && key.indexOf(".") !== -1
-                        ? key.substr(0, key.lastIndexOf("."))
-                        : key,
-                    textures[key]
+                    stripExtension ? removeExtension(key) : key,
+                    textures[key],
+                    pageName
                 );
             }
         }
     }
 
+    /**
+     * File name of the texture or its cache id, numbered if another page has it already
+     */
+    private uniquePageName(baseTexture: PIXI.BaseTexture) {
+        const resource = baseTexture.resource as any;
+        let name: string =
+            resource && resource.url && resource.url.indexOf("data:") !== 0
+                ? resource.url
+                : baseTexture.textureCacheIds[0];
+
+        name = name ? name.substr(name.lastIndexOf("/") + 1) : "texturePage";
+
+        const taken = (pageName: string) =>
+            this.pages.some((page) => page.name === pageName);
+        let unique = name;
+        for (let i = 2; taken(unique); i++) {
+            unique = name + "-" + i;
+        }
+
+        return unique;
+    }
+
+    /**
+     * Adds frames of parsed PIXI.Spritesheet, trim, rotation and original size come with frame textures
+     */
+    addSpritesheet(spritesheet: PIXI.Spritesheet, stripExtension = true) {
+        this.addTextureHash(spritesheet.textures, stripExtension);
+        this.namePage(spritesheet.baseTexture, spritesheet.data);
+    }
+
+    /**
+     * Adds frames of TexturePacker json, both hash and array formats.
+     * Frame textures are created the same way as PIXI.Spritesheet does, without waiting for it.
+     */
+    addTexturePackerData(
+        data: any,
+        baseTexture: PIXI.BaseTexture,
+        stripExtension = true
+    ) {
+        const frames = data.frames;
+        const resolution = baseTexture.resolution;
+
+        for (let key in frames) {
+            if (!frames.hasOwnProperty(key)) continue;
+            const frameData = frames[key];
+            const name = Array.isArray(frames) ? frameData.filename : key;
+            const rect = frameData.frame;
+            const trimmed = frameData.trimmed !== false;
+            const sourceSize =
+                trimmed && frameData.sourceSize ? frameData.sourceSize : rect;
+
+            const frame = new PIXI.Rectangle(
+                Math.floor(rect.x) / resolution,
+                Math.floor(rect.y) / resolution,
+                Math.floor(frameData.rotated ? rect.h : rect.w) / resolution,
+                Math.floor(frameData.rotated ? rect.w : rect.h) / resolution
+            );
+            const orig = new PIXI.Rectangle(
+                0,
+                0,
+                Math.floor(sourceSize.w) / resolution,
+                Math.floor(sourceSize.h) / resolution
+            );
+            let trim: PIXI.Rectangle = null;
+            if (trimmed && frameData.spriteSourceSize) {
+                trim = new PIXI.Rectangle(
+                    Math.floor(frameData.spriteSourceSize.x) / resolution,
+                    Math.floor(frameData.spriteSourceSize.y) / resolution,
+                    Math.floor(rect.w) / resolution,
+                    Math.floor(rect.h) / resolution
+                );
+            }
+
+            this.addTexture(
+                stripExtension ? removeExtension(name) : name,
+                new PIXI.Texture(
+                    baseTexture,
+                    frame,
+                    orig,
+                    trim,
+                    frameData.rotated ? 2 : 0
+                )
+            );
+        }
+        this.namePage(baseTexture, data);
+    }
+
+    private namePage(baseTexture: PIXI.BaseTexture, data: any) {
+        const image = data && data.meta && data.meta.image;
+        for (let i = 0; i < this.pages.length; i++) {
+            if (image && this.pages[i].baseTexture === baseTexture) {
+                this.pages[i].name = image;
+            }
+        }
+    }
+
     public addSpineAtlas(
         atlasText: string,
         textureLoader: (
             path: string,
             loaderFunction: (tex: PIXI.BaseTexture) => any
         ) => any,
-        callback: (obj: TextureAtlas) => any
+        callback: (obj: TextureAtlas) => any,
+        options?: ITextureAtlasOptions
     ) {
-        return this.load(atlasText, textureLoader, callback);
+        return this.load(atlasText, textureLoader, callback, options);
     }
 
     private load(
@@ -99,235 +272,191 @@ export class TextureAtlas implements Disposable {
             path: string,
             loaderFunction: (tex: PIXI.BaseTexture) => any
         ) => any,
-        callback: (obj: TextureAtlas) => any
+        callback: (obj: TextureAtlas) => any,
+        options: ITextureAtlasOptions = {}
     ) {
         if (textureLoader == null)
             throw new Error("textureLoader cannot be null.");
 
-        let reader = new TextureAtlasReader(atlasText);
-        let entry = new Array<string>(4);
-        let page: TextureAtlasPage = null;
-        let pageFields: Map<Function> = {};
-        let region: RegionFields = null;
-        pageFields["size"] = () => {
-            page.width = parseInt(entry[1]);
-            page.height = parseInt(entry[2]);
-        };
-        pageFields["format"] = () => {
-            // page.format = Format[tuple[0]]; we don't need format in WebGL
-        };
-        pageFields["filter"] = () => {
-            page.minFilter = filterFromString(entry[1]);
-            page.magFilter = filterFromString(entry[2]);
-        };
-        pageFields["repeat"] = () => {
-            if (entry[1].indexOf("x") != -1) page.uWrap = TextureWrap.Repeat;
-            if (entry[1].indexOf("y") != -1) page.vWrap = TextureWrap.Repeat;
-        };
-        pageFields["pma"] = () => {
-            page.pma = entry[1] == "true";
-        };
+        const lazy = !!options.lazy;
+        const resolution = options.resolution || 0;
+        if (options.placeholder) {
+            this.placeholder =
+                options.placeholder === true
+                    ? getCheckerboardTexture()
+                    : options.placeholder;
+        }
 
-        let regionFields: Map<Function> = {};
-        regionFields["xy"] = () => {
-            // Deprecated, use bounds.
-            region.x = parseInt(entry[1]);
-            region.y = parseInt(entry[2]);
-        };
-        regionFields["size"] = () => {
-            // Deprecated, use bounds.
-            region.width = parseInt(entry[1]);
-            region.height = parseInt(entry[2]);
-        };
-        regionFields["bounds"] = () => {
-            region.x = parseInt(entry[1]);
-            region.y = parseInt(entry[2]);
-            region.width = parseInt(entry[3]);
-            region.height = parseInt(entry[4]);
-        };
-        regionFields["offset"] = () => {
-            // Deprecated, use offsets.
-            region.offsetX = parseInt(entry[1]);
-            region.offsetY = parseInt(entry[2]);
-        };
-        regionFields["orig"] = () => {
-            // Deprecated, use offsets.
-            region.originalWidth = parseInt(entry[1]);
-            region.originalHeight = parseInt(entry[2]);
-        };
-        regionFields["offsets"] = () => {
-            region.offsetX = parseInt(entry[1]);
-            region.offsetY = parseInt(entry[2]);
-            region.originalWidth = parseInt(entry[3]);
-            region.originalHeight = parseInt(entry[4]);
-        };
-        regionFields["rotate"] = () => {
-            let rotateValue = entry[1];
-            let rotate = 0;
-            if (rotateValue.toLocaleLowerCase() == "true") {
-                rotate = 6;
-            } else if (rotateValue.toLocaleLowerCase() == "false") {
-                rotate = 0;
-            } else {
-                rotate = ((720 - parseFloat(rotateValue)) % 360) / 45;
+        const data = new TextureAtlasData(atlasText);
+        let pageIndex = 0;
+
+        let iterateParser = () => {
+            if (pageIndex >= data.pages.length) {
+                return callback && callback(this);
             }
-            region.rotate = rotate;
-        };
-        regionFields["index"] = () => {
-            region.index = parseInt(entry[1]);
-        };
 
-        let line = reader.readLine();
-        // Ignore empty lines before first entry.
-        while (line != null && line.trim().length == 0)
-            line = reader.readLine();
-        // Header entries.
-        while (true) {
-            if (line == null || line.trim().length == 0) break;
-            if (reader.readEntry(entry, line) == 0) break; // Silently ignore all header fields.
-            line = reader.readLine();
-        }
+            const pageData = data.pages[pageIndex++];
+            const page = new TextureAtlasPage();
+            page.name = pageData.name;
+            page.width = pageData.width;
+            page.height = pageData.height;
+            page.minFilter = pageData.minFilter;
+            page.magFilter = pageData.magFilter;
+            page.uWrap = pageData.uWrap;
+            page.vWrap = pageData.vWrap;
+            page.pma = pageData.pma;
 
-        let iterateParser = () => {
-            while (true) {
-                if (line == null) {
-                    return callback && callback(this);
-                }
-                if (line.trim().length == 0) {
-                    page = null;
-                    line = reader.readLine();
-                } else if (page === null) {
-                    page = new TextureAtlasPage();
-                    page.name = line.trim();
-
-                    while (true) {
-                        if (
-                            reader.readEntry(
-                                entry,
-                                (line = reader.readLine())
-                            ) == 0
-                        )
-                            break;
-                        let field: Function = pageFields[entry[0]];
-                        if (field) field();
+            const settings =
+                options.pageSettings && options.pageSettings[page.name];
+            if (settings) {
+                page.applySettings(settings);
+            }
+            this.pages.push(page);
+
+            let pageLoader: TextureLoader = textureLoader;
+            // lazy page needs its size before the texture is loaded
+            if (lazy && page.width && page.height) {
+                page.lazyLoader = textureLoader;
+                pageLoader = (path, loaderFunction) => {
+                    const placeholder = new PIXI.BaseTexture(null, {
+                        resolution:
+                            resolution || PIXI.utils.getResolutionOfUrl(path),
+                    });
+                    placeholder.setRealSize(page.width, page.height);
+                    loaderFunction(placeholder);
+                };
+            }
+
+            pageLoader(page.name, (texture: PIXI.BaseTexture) => {
+                if (texture === null) {
+                    if (!this.placeholder) {
+                        this.pages.splice(this.pages.indexOf(page), 1);
+                        return callback && callback(null);
+                    }
+                    // regions take their size from atlas text, placeholder texture is stretched over them
+                    page.placeholder = true;
+                    page.baseTexture = this.placeholder.baseTexture;
+                } else {
+                    if (resolution && texture.resolution !== resolution) {
+                        texture.setResolution(resolution);
+                    }
+                    page.baseTexture = texture;
+                    if (page.pma) {
+                        texture.alphaMode = PIXI.ALPHA_MODES.PMA;
+                    }
+                    if (!texture.valid) {
+                        texture.setSize(page.width, page.height);
                     }
                     this.pages.push(page);
+                    page.setFilters();
 
-                    textureLoader(page.name, (texture: PIXI.BaseTexture) => {
-                        if (texture === null) {
-                            this.pages.splice(this.pages.indexOf(page), 1);
-                            return callback && callback(null);
-                        }
-                        page.baseTexture = texture;
-                        //TODO: set scaleMode and mipmapMode from spine
-                        if (page.pma) {
-                            texture.alphaMode = PIXI.ALPHA_MODES.PMA;
-                        }
-                        if (!texture.valid) {
-                            texture.setSize(page.width, page.height);
-                        }
-                        this.pages.push(page);
-                        page.setFilters();
-
+                    if (!page.width || !page.height) {
+                        page.width = texture.realWidth;
+                        page.height = texture.realHeight;
                         if (!page.width || !page.height) {
-                            page.width = texture.realWidth;
-                            page.height = texture.realHeight;
-                            if (!page.width || !page.height) {
-                                console.log(
-                                    "ERROR spine atlas page " +
-                                        page.name +
-                                        ": meshes wont work if you dont specify size in atlas (http://www.html5gamedevs.com/topic/18888-pixi-spines-and-meshes/?p=107121)"
-                                );
-                            }
-                        }
-                        iterateParser();
-                    });
-                    this.pages.push(page);
-                    break;
-                } else {
-                    region = new RegionFields();
-                    let atlasRegion = new TextureAtlasRegion();
-                    atlasRegion.name = line;
-                    atlasRegion.page = page;
-                    let names: string[] = null;
-                    let values: number[][] = null;
-                    while (true) {
-                        let count = reader.readEntry(
-                            entry,
-                            (line = reader.readLine())
-                        );
-                        if (count == 0) break;
-                        let field: Function = regionFields[entry[0]];
-                        if (field) field();
-                        else {
-                            if (names == null) {
-                                names = [];
-                                values = [];
-                            }
-                            names.push(entry[0]);
-                            let entryValues: number[] = [];
-                            for (let i = 0; i < count; i++)
-                                entryValues.push(parseInt(entry[i + 1]));
-                            values.push(entryValues);
+                            console.log(
+                                "ERROR spine atlas page " +
+                                    page.name +
+                                    ": meshes wont work if you dont specify size in atlas (http://www.html5gamedevs.com/topic/18888-pixi-spines-and-meshes/?p=107121)"
+                            );
                         }
                     }
-                    if (
-                        region.originalWidth == 0 &&
-                        region.originalHeight == 0
-                    ) {
-                        region.originalWidth = region.width;
-                        region.originalHeight = region.height;
-                    }
+                }
 
-                    let resolution = page.baseTexture.resolution;
-                    region.x /= resolution;
-                    region.y /= resolution;
-                    region.width /= resolution;
-                    region.height /= resolution;
-                    region.originalWidth /= resolution;
-                    region.originalHeight /= resolution;
-                    region.offsetX /= resolution;
-                    region.offsetY /= resolution;
-
-                    const swapWH = region.rotate % 4 !== 0;
-                    let frame = new PIXI.Rectangle(
-                        region.x,
-                        region.y,
-                        swapWH ? region.height : region.width,
-                        swapWH ? region.width : region.height
-                    );
-
-                    let orig = new PIXI.Rectangle(
-                        0,
-                        0,
-                        region.originalWidth,
-                        region.originalHeight
-                    );
-                    let trim = new PIXI.Rectangle(
-                        region.offsetX,
-                        region.originalHeight - region.height - region.offsetY,
-                        region.width,
-                        region.height
-                    );
-
-                    atlasRegion.texture = new PIXI.Texture(
-                        atlasRegion.page.baseTexture,
-                        frame,
-                        orig,
-                        trim,
-                        region.rotate
-                    );
-                    atlasRegion.index = region.index;
-                    atlasRegion.texture.updateUvs();
-
-                    this.regions.push(atlasRegion);
+                for (let i = 0; i < data.regions.length; i++) {
+                    if (data.regions[i].page === pageData) {
+                        this.regions.push(
+                            this.createRegion(data.regions[i], page, options)
+                        );
+                    }
                 }
-            }
+                iterateParser();
+            });
+            this.pages.push(page);
         };
 
         iterateParser();
     }
 
+    private createRegion(
+        regionData: TextureAtlasRegionData,
+        page: TextureAtlasPage,
+        options: ITextureAtlasOptions
+    ): TextureAtlasRegion {
+        const atlasRegion = new TextureAtlasRegion();
+        atlasRegion.name = regionData.name;
+        atlasRegion.page = page;
+
+        const resolution = page.placeholder
+            ? options.resolution || PIXI.utils.getResolutionOfUrl(page.name)
+            : page.baseTexture.resolution;
+        const x = regionData.x / resolution;
+        const y = regionData.y / resolution;
+        const width = regionData.width / resolution;
+        const height = regionData.height / resolution;
+        const originalWidth = regionData.originalWidth / resolution;
+        const originalHeight = regionData.originalHeight / resolution;
+        const offsetX = regionData.offsetX / resolution;
+        const offsetY = regionData.offsetY / resolution;
+
+        // pixi rotation is groupD8, it goes the other way in steps of 45 degrees
+        const rotate = ((720 - regionData.degrees) % 360) / 45;
+        const swapWH = rotate % 4 !== 0;
+        let frame = new PIXI.Rectangle(
+            x,
+            y,
+            swapWH ? height : width,
+            swapWH ? width : height
+        );
+
+        let orig = new PIXI.Rectangle(0, 0, originalWidth, originalHeight);
+        let trim = new PIXI.Rectangle(
+            offsetX,
+            originalHeight - height - offsetY,
+            width,
+            height
+        );
+
+        if (page.placeholder) {
+            atlasRegion.texture = new PIXI.Texture(
+                this.placeholder.baseTexture,
+                this.placeholder.frame.clone(),
+                orig,
+                trim
+            );
+            atlasRegion.placeholder = true;
+        } else {
+            atlasRegion.texture = new PIXI.Texture(
+                page.baseTexture,
+                frame,
+                orig,
+                trim,
+                rotate
+            );
+        }
+        atlasRegion.index = regionData.index;
+        atlasRegion.names = regionData.names;
+        atlasRegion.values = regionData.values;
+        atlasRegion.texture.updateUvs();
+
+        return atlasRegion;
+    }
+
+    /**
+     * Adds region that shows {@link TextureAtlas.placeholder} for a name that is not in the atlas,
+     * attachments size it as the original region
+     */
+    addPlaceholderRegion(name: string): TextureAtlasRegion {
+        const region = new TextureAtlasRegion();
+        region.name = name;
+        region.page = null;
+        region.texture = this.placeholder;
+        region.index = -1;
+        region.placeholder = true;
+        this.regions.push(region);
+        return region;
+    }
+
     findRegion(name: string): TextureAtlasRegion {
         for (let i = 0; i < this.regions.length; i++) {
             if (this.regions[i].name == name) {
@@ -337,46 +466,128 @@ export class TextureAtlas implements Disposable {
         return null;
     }
 
-    dispose() {
+    /**
+     * Writes pages and regions in spine atlas format, {@link TextureAtlas.addSpineAtlas} reads it back.
+     * Format "3.x" is understood by older spine tools, but only 90 degrees rotation is valid there.
+     */
+    toAtlasText(format: "3.x" | "4.0" = "4.0"): string {
+        const legacy = format === "3.x";
+        const lines: string[] = [];
+        const write = (indent: boolean, name: string, values: any[]) => {
+            lines.push(
+                (legacy && indent ? "  " : "") +
+                    name +
+                    (legacy ? ": " : ":") +
+                    values.join(legacy ? ", " : ",")
+            );
+        };
+
+        const pages: TextureAtlasPage[] = [];
         for (let i = 0; i < this.pages.length; i++) {
-            this.pages[i].baseTexture.dispose();
+            if (pages.indexOf(this.pages[i]) < 0) {
+                pages.push(this.pages[i]);
+            }
         }
-    }
-}
 
-/**
- * @public
- */
-class TextureAtlasReader {
-    lines: Array<string>;
-    index: number = 0;
+        for (let i = 0; i < pages.length; i++) {
+            const page = pages[i];
+            const baseTexture = page.baseTexture;
+            const resolution = baseTexture ? baseTexture.resolution : 1;
+            const repeat =
+                (page.uWrap === TextureWrap.Repeat ? "x" : "") +
+                (page.vWrap === TextureWrap.Repeat ? "y" : "");
 
-    constructor(text: string) {
-        this.lines = text.split(/\r\n|\r|\n/);
-    }
+            if (legacy || i > 0) {
+                lines.push("");
+            }
+            lines.push(page.name);
+            write(false, "size", [
+                page.width || baseTexture.realWidth,
+                page.height || baseTexture.realHeight,
+            ]);
+            if (legacy) {
+                write(false, "format", ["RGBA8888"]);
+            }
+            write(false, "filter", [
+                TextureFilter[page.minFilter],
+                TextureFilter[page.magFilter],
+            ]);
+            if (legacy || repeat) {
+                write(false, "repeat", [repeat || "none"]);
+            }
+            if (page.pma) {
+                write(false, "pma", ["true"]);
+            }
 
-    readLine(): string {
-        if (this.index >= this.lines.length) return null;
-        return this.lines[this.index++];
-    }
+            for (let j = 0; j < this.regions.length; j++) {
+                const region = this.regions[j];
+                // placeholders don't know where the region was on the page
+                if (region.page !== page || region.placeholder) continue;
+
+                const pixels = (value: number) =>
+                    Math.round(value * resolution);
+                const x = pixels(region.x);
+                const y = pixels(region.y);
+                const width = pixels(region.width);
+                const height = pixels(region.height);
+                const offsetX = pixels(region.offsetX);
+                const offsetY = pixels(region.spineOffsetY);
+                const originalWidth = pixels(region.originalWidth);
+                const originalHeight = pixels(region.originalHeight);
+                const degrees = region.degrees;
 
-    readEntry(entry: string[], line: string): number {
-        if (line == null) return 0;
-        line = line.trim();
-        if (line.length == 0) return 0;
-
-        let colon = line.indexOf(":");
-        if (colon == -1) return 0;
-        entry[0] = line.substr(0, colon).trim();
-        for (let i = 1, lastMatch = colon + 1; ; i++) {
-            let comma = line.indexOf(",", lastMatch);
-            if (comma == -1) {
-                entry[i] = line.substr(lastMatch).trim();
-                return i;
+                lines.push(region.name);
+                if (legacy) {
+                    write(true, "rotate", [
+                        degrees === 0
+                            ? "false"
+                            : degrees === 90
+                            ? "true"
+                            : degrees,
+                    ]);
+                    write(true, "xy", [x, y]);
+                    write(true, "size", [width, height]);
+                } else {
+                    write(true, "bounds", [x, y, width, height]);
+                }
+                if (region.names) {
+                    for (let k = 0; k < region.names.length; k++) {
+                        write(true, region.names[k], region.values[k]);
+                    }
+                }
+                if (legacy) {
+                    write(true, "orig", [originalWidth, originalHeight]);
+                    write(true, "offset", [offsetX, offsetY]);
+                } else if (
+                    offsetX !== 0 ||
+                    offsetY !== 0 ||
+                    originalWidth !== width ||
+                    originalHeight !== height
+                ) {
+                    write(true, "offsets", [
+                        offsetX,
+                        offsetY,
+                        originalWidth,
+                        originalHeight,
+                    ]);
+                }
+                if (!legacy && degrees !== 0) {
+                    write(true, "rotate", [degrees]);
+                }
+                // parser defaults to 0
+                if (legacy || region.index !== 0) {
+                    write(true, "index", [region.index]);
+                }
             }
-            entry[i] = line.substr(lastMatch, comma - lastMatch).trim();
-            lastMatch = comma + 1;
-            if (i == 4) return 4;
+        }
+        lines.push("");
+
+        return lines.join("\n");
+    }
+
+    dispose() {
+        for (let i = 0; i < this.pages.length; i++) {
+            this.pages[i].baseTexture.dispose();
         }
     }
 }
@@ -395,20 +606,129 @@ export class TextureAtlasPage {
     height: number;
     pma: boolean;
 
+    /**
+     * True if the texture failed to load and regions show {@link TextureAtlas.placeholder}
+     */
+    placeholder = false;
+
+    /**
+     * Loader of the real texture, set only for pages of lazy atlas until the texture is loaded
+     */
+    lazyLoader: TextureLoader = null;
+    private loading = false;
+    private loadCallbacks: Array<(page: TextureAtlasPage) => any> = [];
+    private errorCallbacks: Array<(page: TextureAtlasPage) => any> = [];
+
+    /**
+     * False while lazy page has only placeholder texture
+     */
+    get loaded() {
+        return !this.lazyLoader;
+    }
+
+    /**
+     * Starts loading the texture of lazy page, callback is called when the page becomes valid.
+     * Placeholder texture is kept, so regions don't have to be changed.
+     * If texture can't be loaded, errorCallback is called and the page stays lazy, next call tries again.
+     */
+    public load(
+        callback?: (page: TextureAtlasPage) => any,
+        errorCallback?: (page: TextureAtlasPage) => any
+    ) {
+        if (!this.lazyLoader) {
+            if (callback) callback(this);
+            return;
+        }
+        if (callback) {
+            this.loadCallbacks.push(callback);
+        }
+        if (errorCallback) {
+            this.errorCallbacks.push(errorCallback);
+        }
+        if (this.loading) {
+            return;
+        }
+        this.loading = true;
+        this.lazyLoader(this.name, (texture: PIXI.BaseTexture) => {
+            this.loading = false;
+            if (!texture || !texture.resource) {
+                const errorCallbacks = this.errorCallbacks;
+                this.loadCallbacks = [];
+                this.errorCallbacks = [];
+                for (let i = 0; i < errorCallbacks.length; i++) {
+                    errorCallbacks[i](this);
+                }
+                return;
+            }
+            const placeholder = this.baseTexture;
+            if (texture.alphaMode === PIXI.ALPHA_MODES.PMA) {
+                placeholder.alphaMode = PIXI.ALPHA_MODES.PMA;
+            }
+            placeholder.setResource(texture.resource);
+            this.lazyLoader = null;
+
+            const callbacks = this.loadCallbacks;
+            this.loadCallbacks = [];
+            this.errorCallbacks = [];
+            for (let i = 0; i < callbacks.length; i++) {
+                callbacks[i](this);
+            }
+        });
+    }
+
+    /**
+     * Overrides filters and wraps that came from atlas file, call {@link TextureAtlasPage.setFilters} to apply them
+     */
+    public applySettings(settings: ITextureAtlasPageSettings) {
+        const filter = (value: TextureFilter | string) =>
+            typeof value === "string" ? filterFromString(value) : value;
+        const wrap = (value: TextureWrap | string) =>
+            typeof value === "string" ? wrapFromString(value) : value;
+
+        if (settings.minFilter !== undefined) {
+            this.minFilter = filter(settings.minFilter);
+        }
+        if (settings.magFilter !== undefined) {
+            this.magFilter = filter(settings.magFilter);
+        }
+        if (settings.uWrap !== undefined) {
+            this.uWrap = wrap(settings.uWrap);
+        }
+        if (settings.vWrap !== undefined) {
+            this.vWrap = wrap(settings.vWrap);
+        }
+    }
+
+    /**
+     * Applies filters and wraps to the texture. Pixi has one scale mode for both filters, it follows magFilter,
+     * mipmaps are enabled by minFilter. Pixi has one wrap mode too, repeat on any axis makes the texture repeat.
+     */
     public setFilters() {
         let tex = this.baseTexture;
         let filter = this.minFilter;
-        if (filter == TextureFilter.Linear) {
-            tex.scaleMode = PIXI.SCALE_MODES.LINEAR;
-        } else if (this.minFilter == TextureFilter.Nearest) {
-            tex.scaleMode = PIXI.SCALE_MODES.NEAREST;
-        } else {
+        if (filter != TextureFilter.Linear && filter != TextureFilter.Nearest) {
             tex.mipmap = PIXI.MIPMAP_MODES.POW2;
-            if (filter == TextureFilter.MipMapNearestNearest) {
-                tex.scaleMode = PIXI.SCALE_MODES.NEAREST;
-            } else {
-                tex.scaleMode = PIXI.SCALE_MODES.LINEAR;
-            }
+        } else {
+            // pixi makes mipmaps for pow2 textures by default
+            tex.mipmap = PIXI.MIPMAP_MODES.OFF;
+        }
+        tex.scaleMode =
+            this.magFilter == TextureFilter.Nearest
+                ? PIXI.SCALE_MODES.NEAREST
+                : PIXI.SCALE_MODES.LINEAR;
+
+        if (
+            this.uWrap == TextureWrap.MirroredRepeat ||
+            this.vWrap == TextureWrap.MirroredRepeat
+        ) {
+            tex.wrapMode = PIXI.WRAP_MODES.MIRRORED_REPEAT;
+        } else if (
+            this.uWrap == TextureWrap.Repeat ||
+            this.vWrap == TextureWrap.Repeat
+        ) {
+            tex.wrapMode = PIXI.WRAP_MODES.REPEAT;
+        } else {
+            tex.wrapMode = PIXI.WRAP_MODES.CLAMP;
         }
     }
 }
@@ -420,4 +740,30 @@ export class TextureAtlasRegion extends TextureRegion {
     page: TextureAtlasPage;
     name: string;
     index: number;
+    /**
+     * Region shows {@link TextureAtlas.placeholder}: its page failed to load or it is missing in the atlas
+     */
+    placeholder = false;
+
+    /**
+     * Nine-slice split from atlas file: left, right, top, bottom in atlas pixels, null if region has none
+     */
+    get split(): number[] {
+        return this.findValues("split");
+    }
+
+    /**
+     * Nine-slice content padding from atlas file: left, right, top, bottom in atlas pixels, null if region has none
+     */
+    get pad(): number[] {
+        return this.findValues("pad");
+    }
+
+    /**
+     * Values of custom region field from atlas file, null if region doesn't have it
+     */
+    findValues(name: string): number[] {
+        const index = this.names ? this.names.indexOf(name) : -1;
+        return index >= 0 ? this.values[index] : null;
+    }
 }
@@ -0,0 +1,288 @@
+import {
+    TextureWrap,
+    TextureFilter,
+    filterFromString,
+} from "./TextureRegion";
+import { Map } from "./Utils";
+
+/**
+ * Spine atlas text parser that doesn't need textures nor PIXI global, for build scripts and servers.
+ * Regions have the same fields as {@link TextureRegion} in atlas pixels, so
+ * AtlasAttachmentLoader of any runtime can read skeletons with them.
+ *
+ * ```js
+ * const atlas = new TextureAtlasData(fs.readFileSync('spineboy.atlas', 'utf8'));
+ * const json = new SkeletonJson(new AtlasAttachmentLoader(atlas));
+ * ```
+ * @public
+ */
+export class TextureAtlasData {
+    pages = new Array<TextureAtlasPageData>();
+    regions = new Array<TextureAtlasRegionData>();
+
+    constructor(atlasText?: string) {
+        if (atlasText) {
+            this.load(atlasText);
+        }
+    }
+
+    load(atlasText: string) {
+        let reader = new TextureAtlasReader(atlasText);
+        let entry = new Array<string>(4);
+        let page: TextureAtlasPageData = null;
+        let region: TextureAtlasRegionData = null;
+
+        let pageFields: Map<Function> = {};
+        pageFields["size"] = () => {
+            page.width = parseInt(entry[1]);
+            page.height = parseInt(entry[2]);
+        };
+        pageFields["format"] = () => {
+            page.format = entry[1];
+        };
+        pageFields["filter"] = () => {
+            page.minFilter = filterFromString(entry[1]);
+            page.magFilter = filterFromString(entry[2]);
+        };
+        pageFields["repeat"] = () => {
+            if (entry[1].indexOf("x") != -1) page.uWrap = TextureWrap.Repeat;
+            if (entry[1].indexOf("y") != -1) page.vWrap = TextureWrap.Repeat;
+        };
+        pageFields["pma"] = () => {
+            page.pma = entry[1] == "true";
+        };
+
+        let regionFields: Map<Function> = {};
+        regionFields["xy"] = () => {
+            // Deprecated, use bounds.
+            region.x = parseInt(entry[1]);
+            region.y = parseInt(entry[2]);
+        };
+        regionFields["size"] = () => {
+            // Deprecated, use bounds.
+            region.width = parseInt(entry[1]);
+            region.height = parseInt(entry[2]);
+        };
+        regionFields["bounds"] = () => {
+            region.x = parseInt(entry[1]);
+            region.y = parseInt(entry[2]);
+            region.width = parseInt(entry[3]);
+            region.height = parseInt(entry[4]);
+        };
+        regionFields["offset"] = () => {
+            // Deprecated, use offsets.
+            region.offsetX = parseInt(entry[1]);
+            region.offsetY = parseInt(entry[2]);
+        };
+        regionFields["orig"] = () => {
+            // Deprecated, use offsets.
+            region.originalWidth = parseInt(entry[1]);
+            region.originalHeight = parseInt(entry[2]);
+        };
+        regionFields["offsets"] = () => {
+            region.offsetX = parseInt(entry[1]);
+            region.offsetY = parseInt(entry[2]);
+            region.originalWidth = parseInt(entry[3]);
+            region.originalHeight = parseInt(entry[4]);
+        };
+        regionFields["rotate"] = () => {
+            let value = entry[1].toLowerCase();
+            if (value == "true") region.degrees = 90;
+            else if (value != "false") region.degrees = parseInt(value);
+        };
+        regionFields["index"] = () => {
+            region.index = parseInt(entry[1]);
+        };
+
+        let line = reader.readLine();
+        // Ignore empty lines before first entry.
+        while (line != null && line.trim().length == 0)
+            line = reader.readLine();
+        // Header entries.
+        while (true) {
+            if (line == null || line.trim().length == 0) break;
+            if (reader.readEntry(entry, line) == 0) break; // Silently ignore all header fields.
+            line = reader.readLine();
+        }
+
+        while (line != null) {
+            if (line.trim().length == 0) {
+                page = null;
+                line = reader.readLine();
+            } else if (page === null) {
+                page = new TextureAtlasPageData();
+                page.name = line.trim();
+                while (true) {
+                    if (
+                        reader.readEntry(entry, (line = reader.readLine())) == 0
+                    )
+                        break;
+                    let field: Function = pageFields[entry[0]];
+                    if (field) field();
+                }
+                this.pages.push(page);
+            } else {
+                region = new TextureAtlasRegionData();
+                region.name = line;
+                region.page = page;
+                while (true) {
+                    let count = reader.readEntry(
+                        entry,
+                        (line = reader.readLine())
+                    );
+                    if (count == 0) break;
+                    let field: Function = regionFields[entry[0]];
+                    if (field) field();
+                    else {
+                        if (region.names == null) {
+                            region.names = [];
+                            region.values = [];
+                        }
+                        region.names.push(entry[0]);
+                        let entryValues: number[] = [];
+                        for (let i = 0; i < count; i++)
+                            entryValues.push(parseInt(entry[i + 1]));
+                        region.values.push(entryValues);
+                    }
+                }
+                if (region.originalWidth == 0 && region.originalHeight == 0) {
+                    region.originalWidth = region.width;
+                    region.originalHeight = region.height;
+                }
+                if (page.width && page.height) {
+                    region.u = region.x / page.width;
+                    region.v = region.y / page.height;
+                    if (region.degrees == 90) {
+                        region.u2 = (region.x + region.height) / page.width;
+                        region.v2 = (region.y + region.width) / page.height;
+                    } else {
+                        region.u2 = (region.x + region.width) / page.width;
+                        region.v2 = (region.y + region.height) / page.height;
+                    }
+                }
+                this.regions.push(region);
+            }
+        }
+    }
+
+    findRegion(name: string): TextureAtlasRegionData {
+        for (let i = 0; i < this.regions.length; i++) {
+            if (this.regions[i].name == name) {
+                return this.regions[i];
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * @public
+ */
+export class TextureAtlasPageData {
+    name: string;
+    /**
+     * Pixel format from atlas file, it isn't used by pixi
+     */
+    format: string = null;
+    minFilter: TextureFilter = TextureFilter.Nearest;
+    magFilter: TextureFilter = TextureFilter.Nearest;
+    uWrap: TextureWrap = TextureWrap.ClampToEdge;
+    vWrap: TextureWrap = TextureWrap.ClampToEdge;
+    width = 0;
+    height = 0;
+    pma = false;
+}
+
+/**
+ * Region of {@link TextureAtlasData}, sizes and offsets are in atlas pixels, uvs are zero if page has no size
+ * @public
+ */
+export class TextureAtlasRegionData {
+    page: TextureAtlasPageData;
+    name: string;
+    index = 0;
+
+    x = 0;
+    y = 0;
+    width = 0;
+    height = 0;
+    /**
+     * Offsets are from the bottom left corner, as in spine
+     */
+    offsetX = 0;
+    offsetY = 0;
+    originalWidth = 0;
+    originalHeight = 0;
+    degrees = 0;
+
+    u = 0;
+    v = 0;
+    u2 = 0;
+    v2 = 0;
+
+    names: string[] = null;
+    values: number[][] = null;
+
+    /**
+     * Data regions have no textures, the field is there to match {@link TextureRegion}
+     */
+    texture: PIXI.Texture = null;
+    size: PIXI.Rectangle = null;
+
+    get rotate(): boolean {
+        return this.degrees !== 0;
+    }
+
+    get spineOffsetY(): number {
+        return this.offsetY;
+    }
+
+    get pixiOffsetY(): number {
+        return this.originalHeight - this.height - this.offsetY;
+    }
+
+    /**
+     * Values of custom region field from atlas file, null if region doesn't have it
+     */
+    findValues(name: string): number[] {
+        const index = this.names ? this.names.indexOf(name) : -1;
+        return index >= 0 ? this.values[index] : null;
+    }
+}
+
+/**
+ * @public
+ */
+export class TextureAtlasReader {
+    lines: Array<string>;
+    index: number = 0;
+
+    constructor(text: string) {
+        this.lines = text.split(/\r\n|\r|\n/);
+    }
+
+    readLine(): string {
+        if (this.index >= this.lines.length) return null;
+        return this.lines[this.index++];
+    }
+
+    readEntry(entry: string[], line: string): number {
+        if (line == null) return 0;
+        line = line.trim();
+        if (line.length == 0) return 0;
+
+        let colon = line.indexOf(":");
+        if (colon == -1) return 0;
+        entry[0] = line.substr(0, colon).trim();
+        for (let i = 1, lastMatch = colon + 1; ; i++) {
+            let comma = line.indexOf(",", lastMatch);
+            if (comma == -1) {
+                entry[i] = line.substr(lastMatch).trim();
+                return i;
+            }
+            entry[i] = line.substr(lastMatch, comma - lastMatch).trim();
+            lastMatch = comma + 1;
+            if (i == 4) return 4;
+        }
+    }
+}
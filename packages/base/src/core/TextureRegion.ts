@@ -27,7 +27,7 @@ export function filterFromString(text: string): TextureFilter {
  */
 export function wrapFromString(text: string): TextureWrap {
     switch (text.toLowerCase()) {
-        case "mirroredtepeat":
+        case "mirroredrepeat":
             return TextureWrap.MirroredRepeat;
         case "clamptoedge":
             return TextureWrap.ClampToEdge;
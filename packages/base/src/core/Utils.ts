@@ -178,6 +178,15 @@ export class Color {
         color.b = ((value & 0x000000ff)) / 255;
     }
 
+    static colorToRgba8888 (color: Color): number {
+        return Math.round(color.r * 255) << 24 | Math.round(color.g * 255) << 16 | Math.round(color.b * 255) << 8
+            | Math.round(color.a * 255);
+    }
+
+    static colorToRgb888 (color: Color): number {
+        return Math.round(color.r * 255) << 16 | Math.round(color.g * 255) << 8 | Math.round(color.b * 255);
+    }
+
     static fromString (hex: string): Color {
         return new Color().setFromString(hex);
     }
@@ -189,6 +198,7 @@ export class Color {
 export class MathUtils {
     static PI = 3.1415927;
     static PI2 = MathUtils.PI * 2;
+    static invPI2 = 1 / MathUtils.PI2;
     static radiansToDegrees = 180 / MathUtils.PI;
     static radDeg = MathUtils.radiansToDegrees;
     static degreesToRadians = MathUtils.PI / 180;
@@ -431,6 +441,20 @@ export class Vector2 {
     }
 }
 
+/**
+ * World transform of a bone in core entries, has the same fields as PIXI.Matrix, so core doesn't need PIXI global.
+ * PIXI entries export PIXI.Matrix instead.
+ * @public
+ */
+export class Matrix {
+    a = 1;
+    b = 0;
+    c = 0;
+    d = 1;
+    tx = 0;
+    ty = 0;
+}
+
 /**
  * @public
  */
@@ -0,0 +1,117 @@
+import type { TextureRegion } from "./core/TextureRegion";
+import type { TextureAtlasPage, TextureAtlasRegion } from "./core/TextureAtlas";
+import type {
+    IAttachment,
+    IMeshAttachment,
+    IRegionAttachment,
+    ISlot,
+} from "./core/ISkeleton";
+
+import { settings } from "./settings";
+import * as PIXI from "pixi.js-legacy";
+
+/**
+ * Uvs of sprite quad for mesh material, quad covers trimmed frame and material maps uvs of the whole texture to the page
+ */
+export function computeQuadUvs(texture: PIXI.Texture, uvs: Float32Array) {
+    const orig = texture.orig;
+    const trim = texture.trim;
+    const u0 = trim ? trim.x / orig.width : 0;
+    const v0 = trim ? trim.y / orig.height : 0;
+    const u1 = trim ? (trim.x + trim.width) / orig.width : 1;
+    const v1 = trim ? (trim.y + trim.height) / orig.height : 1;
+
+    uvs[0] = u0;
+    uvs[1] = v0;
+    uvs[2] = u1;
+    uvs[3] = v0;
+    uvs[4] = u1;
+    uvs[5] = v1;
+    uvs[6] = u0;
+    uvs[7] = v1;
+}
+
+/**
+ * Returns the array if it has room for `size` elements, otherwise a bigger copy of it
+ */
+export function grow<T extends Float32Array | Uint16Array>(array: T, size: number): T {
+    if (array.length >= size) {
+        return array;
+    }
+    const result = new (array.constructor as any)(
+        Math.max(size, array.length * 2)
+    );
+    result.set(array);
+    return result;
+}
+
+/**
+ * Spine 4.1 sequences pick region of the attachment according to the slot state
+ */
+export function applySequence(slot: ISlot, attachment: IAttachment) {
+    const sequence = (attachment as IRegionAttachment | IMeshAttachment)
+        .sequence;
+
+    if (sequence) {
+        sequence.apply(slot, attachment as any);
+    }
+}
+
+/**
+ * Requests pages of lazy atlas when their regions are shown for the first time.
+ * Page that failed isn't requested again, `page.load()` retries it.
+ */
+export class RegionPageLoader {
+    /**
+     * Called with "pageLoaded" when texture of the page is ready, or with "pageLoadFailed"
+     */
+    onPage: (event: string, page: TextureAtlasPage) => void;
+    private pendingPages: Array<TextureAtlasPage> = [];
+    private failedPages: Array<TextureAtlasPage> = [];
+
+    constructor(onPage: (event: string, page: TextureAtlasPage) => void) {
+        this.onPage = onPage;
+    }
+
+    load(region: TextureRegion) {
+        const page = (region as TextureAtlasRegion).page;
+        if (
+            !page ||
+            page.loaded ||
+            this.pendingPages.indexOf(page) >= 0 ||
+            this.failedPages.indexOf(page) >= 0
+        ) {
+            return;
+        }
+        this.pendingPages.push(page);
+        page.load(
+            () => {
+                this.pendingPages.splice(this.pendingPages.indexOf(page), 1);
+                this.onPage("pageLoaded", page);
+            },
+            () => {
+                this.pendingPages.splice(this.pendingPages.indexOf(page), 1);
+                this.failedPages.push(page);
+                this.onPage("pageLoadFailed", page);
+            }
+        );
+    }
+}
+
+/**
+ * Used as pixi's updateTransform of spine objects when autoUpdate is set
+ */
+export function autoUpdateTransform(
+    this: PIXI.Container & { lastTime: number; update(dt: number): void }
+) {
+    if (settings.GLOBAL_AUTO_UPDATE) {
+        this.lastTime = this.lastTime || Date.now();
+        let timeDelta = (Date.now() - this.lastTime) * 0.001;
+        this.lastTime = Date.now();
+        this.update(timeDelta);
+    } else {
+        this.lastTime = 0;
+    }
+
+    PIXI.Container.prototype.updateTransform.call(this);
+}
@@ -1,12 +1,12 @@
 /// <reference path="../global.d.ts" />
-export * from './core/AttachmentType';
-export * from './core/BinaryInput';
-export * from './core/IAnimation';
-export * from './core/IConstraint';
-export * from './core/ISkeleton';
+export * from './core';
+// bones of PIXI entries keep PIXI.Matrix, it shadows plain Matrix of the core entry
+export { Matrix } from 'pixi.js-legacy';
+export * from './core/MultiTextureAtlas';
+export * from './core/SkeletonValidator';
 export * from './core/TextureAtlas';
-export * from './core/TextureRegion';
-export * from './core/Utils';
 
-export * from './settings';
 export * from './SpineBase';
+export * from './SpineBatchedBase';
+export * from './SpineDebugRendererBase';
+export * from './SpineNineSlice';
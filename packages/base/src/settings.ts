@@ -18,4 +18,14 @@ export let settings = {
      * past Spine.globalDelayLimit
      */
     GLOBAL_DELAY_LIMIT: 0,
+
+    /**
+     * Clipping attachments are PIXI masks, set it to false to clip slots on CPU instead
+     */
+    CLIPPING_MASK: true,
+
+    /**
+     * Slots with dark color are drawn with two-color tint shader, turn it off to draw them with ordinary pixi tint
+     */
+    DARK_TINT: true,
 }
@@ -0,0 +1,65 @@
+/// <reference path="../global.d.ts" />
+import {
+    AbstractSpineParser,
+    ISpineLoadOptions,
+} from "@pixi-spine/loader-base";
+import * as base from "@pixi-spine/base";
+import { ISkeletonParser, StringMap, TextureAtlas } from "@pixi-spine/base";
+import {
+    AtlasAttachmentLoader,
+    SkeletonBinary,
+    SkeletonJson,
+} from "@pixi-spine/runtime-4.1";
+import * as runtime from "@pixi-spine/runtime-4.1";
+
+/**
+ * @public
+ */
+export class SpineParser extends AbstractSpineParser {
+    createBinaryParser(): ISkeletonParser {
+        return new SkeletonBinary(null);
+    }
+
+    createJsonParser(): ISkeletonParser {
+        return new SkeletonJson(null);
+    }
+
+    parseData(
+        resource: PIXI.LoaderResource,
+        parser: ISkeletonParser,
+        atlas: TextureAtlas,
+        dataToParse: any
+    ): void {
+        const parserCast = parser as SkeletonBinary | SkeletonJson;
+
+        parserCast.attachmentLoader = new AtlasAttachmentLoader(
+            atlas,
+            parser.validator
+        );
+        resource.spineData = parserCast.readSkeletonData(dataToParse);
+        resource.spineAtlas = atlas;
+    }
+
+    /**
+     * Skeletons parsed in a worker are restored only if the worker read spine 4.1 data
+     */
+    getRuntimeClasses(version: string): StringMap<Function> {
+        return version && version.substr(0, 3) === "4.1"
+            ? { ...base, ...(runtime as any) }
+            : null;
+    }
+
+    static use = new SpineParser().genMiddleware().use;
+
+    static registerLoaderPlugin() {
+        PIXI.Loader.registerPlugin(SpineParser);
+    }
+}
+
+/**
+ * Loads skeleton and its atlas without PIXI.Loader, see {@link AbstractSpineParser.load}
+ * @public
+ */
+export function loadSpine(url: string, options?: ISpineLoadOptions) {
+    return new SpineParser().load(url, options);
+}
@@ -0,0 +1,6 @@
+declare namespace GlobalMixins
+{
+    interface LoaderResource {
+        spineData?: import('@pixi-spine/runtime-4.2').SkeletonData;
+    }
+}
@@ -0,0 +1,9 @@
+const {main} = require('@pixi-spine/rollup-config/main');
+
+module.exports = main({
+    globals: {
+        '@pixi-spine/base': 'PIXI.spine.base',
+        '@pixi-spine/runtime-4.2': 'PIXI.spine42',
+        '@pixi-spine/loader-base': 'PIXI.spine',
+    },
+});
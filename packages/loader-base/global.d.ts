@@ -18,3 +18,11 @@ declare namespace GlobalMixins
         spineAtlas?: import('@pixi-spine/base').TextureAtlas;
     }
 }
+
+// pixi.js-legacy 5.3 typings don't use GlobalMixins for resources
+declare namespace PIXI
+{
+    interface LoaderResource {
+        spineValidator?: import('@pixi-spine/base').SkeletonValidator;
+    }
+}
@@ -0,0 +1,189 @@
+import type { SkeletonValidator } from "@pixi-spine/base";
+
+/**
+ * Error produced when spine skeleton, its atlas or atlas pages can't be loaded.
+ *
+ * @public
+ */
+export class SpineLoadError extends Error {
+    /**
+     * Url of the resource that failed
+     */
+    url: string;
+
+    /**
+     * Original error, if there was one
+     */
+    cause: any;
+
+    /**
+     * Spine version string found in skeleton data, null if it wasn't detected
+     */
+    version: string;
+
+    /**
+     * Name of the item that caused the error: atlas path, page name or region name
+     */
+    itemName: string;
+
+    constructor(
+        message: string,
+        url: string,
+        cause: any = null,
+        version: string = null,
+        itemName: string = null
+    ) {
+        super(message);
+        // ES5 target breaks prototype chain of Error subclasses
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "SpineLoadError";
+        this.url = url;
+        this.cause = cause;
+        this.version = version;
+        this.itemName = itemName;
+    }
+}
+
+/**
+ * Skeleton was exported by spine version that is not supported by the loader
+ *
+ * @public
+ */
+export class SpineUnsupportedVersionError extends SpineLoadError {
+    constructor(url: string, version: string) {
+        super(
+            `Unsupported version of spine model ${version}, please update pixi-spine`,
+            url,
+            null,
+            version
+        );
+        this.name = "SpineUnsupportedVersionError";
+    }
+}
+
+/**
+ * Atlas file of the skeleton can't be loaded
+ *
+ * @public
+ */
+export class SpineMissingAtlasError extends SpineLoadError {
+    constructor(url: string, atlasPath: string, cause: any = null) {
+        super(
+            `Failed to load atlas ${atlasPath}${cause ? `: ${cause}` : ""}`,
+            url,
+            cause,
+            null,
+            atlasPath
+        );
+        this.name = "SpineMissingAtlasError";
+    }
+}
+
+/**
+ * Image of atlas page can't be loaded
+ *
+ * @public
+ */
+export class SpineMissingPageError extends SpineLoadError {
+    constructor(url: string, pageName: string) {
+        super(
+            `Failed to load atlas page ${pageName}`,
+            url,
+            null,
+            null,
+            pageName
+        );
+        this.name = "SpineMissingPageError";
+    }
+}
+
+/**
+ * Skeleton references region that is not present in the atlas
+ *
+ * @public
+ */
+export class SpineMissingRegionError extends SpineLoadError {
+    constructor(
+        url: string,
+        regionName: string,
+        version: string = null,
+        cause: any = null
+    ) {
+        super(
+            `Region not found in atlas: ${regionName}`,
+            url,
+            cause,
+            version,
+            regionName
+        );
+        this.name = "SpineMissingRegionError";
+    }
+}
+
+/**
+ * Skeleton references regions that are not present in the atlas, found in validation mode.
+ * Set `spineSkipMissingAttachments` to load the skeleton without them.
+ *
+ * @public
+ */
+export class SpineValidationError extends SpineLoadError {
+    /**
+     * Report with every missing region and page size mismatch
+     */
+    validator: SkeletonValidator;
+
+    constructor(url: string, validator: SkeletonValidator) {
+        super(
+            `Skeleton doesn't match its atlas:\n${validator}`,
+            url,
+            null,
+            null,
+            validator.missingRegions[0].path
+        );
+        this.name = "SpineValidationError";
+        this.validator = validator;
+    }
+}
+
+/**
+ * Skeleton data can't be parsed
+ *
+ * @public
+ */
+export class SpineMalformedDataError extends SpineLoadError {
+    constructor(url: string, version: string = null, cause: any = null) {
+        super(
+            `Failed to parse spine data${cause ? `: ${cause}` : ""}`,
+            url,
+            cause,
+            version
+        );
+        this.name = "SpineMalformedDataError";
+    }
+}
+
+// message of AtlasAttachmentLoader in all runtimes
+const regionNotFound = /^Region not found in atlas: (.*) \([a-z ]+: .*\)$/;
+
+/**
+ * Converts error thrown during skeleton parsing to {@link SpineLoadError}.
+ * Fills url and version if the error doesn't have them yet.
+ *
+ * @public
+ */
+export function toSpineLoadError(
+    e: any,
+    url: string,
+    version: string = null
+): SpineLoadError {
+    if (e instanceof SpineLoadError) {
+        e.url = e.url || url;
+        e.version = e.version || version;
+        return e;
+    }
+    const region = e && regionNotFound.exec(e.message);
+    if (region) {
+        return new SpineMissingRegionError(url, region[1], version, e);
+    }
+    return new SpineMalformedDataError(url, version, e);
+}
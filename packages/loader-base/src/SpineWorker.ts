@@ -0,0 +1,214 @@
+import type { IPackedSkeletonData } from "@pixi-spine/base";
+import {
+    SpineLoadError,
+    SpineUnsupportedVersionError,
+    toSpineLoadError,
+} from "./SpineLoadError";
+
+/**
+ * Messaging with the other side of a worker. Browser workers and node `worker_threads` have different APIs,
+ * {@link createSpineWorkerPort} adapts both, tests can implement it directly.
+ * @public
+ */
+export interface ISpineWorkerPort {
+    postMessage(message: any, transfer?: any[]): void;
+    onMessage(listener: (message: any) => void): void;
+    /**
+     * Worker crashed or message can't be deserialized, requests that wait for answer fail
+     */
+    onError?(listener: (error: any) => void): void;
+}
+
+/**
+ * Port for browser `Worker` or worker `self`, node `Worker` or `parentPort`
+ * @public
+ */
+export function createSpineWorkerPort(target: any): ISpineWorkerPort {
+    return {
+        postMessage(message: any, transfer: any[] = []) {
+            target.postMessage(message, transfer);
+        },
+        onMessage(listener: (message: any) => void) {
+            if (typeof target.on === "function") {
+                // node worker_threads
+                target.on("message", listener);
+            } else {
+                target.addEventListener("message", (event: MessageEvent) =>
+                    listener(event.data)
+                );
+            }
+        },
+        onError(listener: (error: any) => void) {
+            if (typeof target.on === "function") {
+                target.on("error", listener);
+                target.on("messageerror", listener);
+            } else {
+                target.addEventListener("error", (event: ErrorEvent) =>
+                    listener(event.error || event.message)
+                );
+                target.addEventListener("messageerror", () =>
+                    listener("message can't be deserialized")
+                );
+            }
+        },
+    };
+}
+
+/**
+ * @public
+ */
+export interface ISpineParseRequest {
+    id: number;
+    /**
+     * Json text or object, or buffer of binary skeleton
+     */
+    data: any;
+    binary: boolean;
+    scale: number;
+    upgradeData: boolean;
+}
+
+/**
+ * @public
+ */
+export interface ISpineParseResponse {
+    id: number;
+    packed?: IPackedSkeletonData;
+    error?: {
+        message: string;
+        version: string;
+        unsupported: boolean;
+    };
+}
+
+/**
+ * Main thread side of skeleton parser worker, pass it as `spineWorker` option of {@link AbstractSpineParser.load}
+ * @public
+ */
+export class SpineWorkerClient {
+    port: ISpineWorkerPort;
+
+    private lastId = 0;
+    private pending: {
+        [id: number]: {
+            resolve: (packed: IPackedSkeletonData) => void;
+            reject: (error: any) => void;
+        };
+    } = {};
+
+    constructor(port: ISpineWorkerPort) {
+        this.port = port;
+        port.onMessage((response: ISpineParseResponse) =>
+            this.receive(response)
+        );
+        if (port.onError) {
+            port.onError((error) => this.rejectAll(error));
+        }
+    }
+
+    /**
+     * Sends skeleton to the worker, buffer of binary skeleton is transferred and can't be used after that
+     *
+     * @returns promise of packed data, it is rejected with {@link SpineLoadError}
+     */
+    parse(
+        data: any,
+        binary: boolean,
+        scale = 1,
+        upgradeData = false
+    ): Promise<IPackedSkeletonData> {
+        const id = ++this.lastId;
+        const request: ISpineParseRequest = {
+            id,
+            data,
+            binary,
+            scale,
+            upgradeData,
+        };
+
+        return new Promise((resolve, reject) => {
+            this.pending[id] = { resolve, reject };
+            this.port.postMessage(
+                request,
+                data instanceof ArrayBuffer ? [data] : []
+            );
+        });
+    }
+
+    private rejectAll(error: any) {
+        const pending = this.pending;
+        const message = (error && error.message) || `${error}`;
+
+        this.pending = {};
+        for (let id in pending) {
+            pending[id].reject(
+                new SpineLoadError(
+                    `Spine worker failed: ${message}`,
+                    null,
+                    error
+                )
+            );
+        }
+    }
+
+    private receive(response: ISpineParseResponse) {
+        const pending = this.pending[response.id];
+
+        if (!pending) {
+            return;
+        }
+        delete this.pending[response.id];
+
+        const error = response.error;
+
+        if (!error) {
+            pending.resolve(response.packed);
+        } else if (error.unsupported) {
+            pending.reject(
+                new SpineUnsupportedVersionError(null, error.version)
+            );
+        } else {
+            pending.reject(
+                toSpineLoadError(new Error(error.message), null, error.version)
+            );
+        }
+    }
+}
+
+/**
+ * Worker side of skeleton parser worker, loader packages give it the function that parses and packs skeleton data
+ * @public
+ */
+export function serveSpineWorker(
+    port: ISpineWorkerPort,
+    parse: (request: ISpineParseRequest) => {
+        packed: IPackedSkeletonData;
+        transfer: ArrayBuffer[];
+    }
+) {
+    port.onMessage((request: ISpineParseRequest) => {
+        let response: ISpineParseResponse;
+        let transfer: ArrayBuffer[] = [];
+
+        try {
+            const result = parse(request);
+
+            response = { id: request.id, packed: result.packed };
+            transfer = result.transfer;
+        } catch (e) {
+            // errors can't be cloned with their classes, main thread creates them again
+            const error = toSpineLoadError(e, null);
+            const cause = error.cause || error;
+
+            response = {
+                id: request.id,
+                error: {
+                    message: cause.message || `${cause}`,
+                    version: error.version,
+                    unsupported: error instanceof SpineUnsupportedVersionError,
+                },
+            };
+        }
+        port.postMessage(response, transfer);
+    });
+}
@@ -0,0 +1,2 @@
+export * from './SpineLoadError';
+export * from './SpineWorker';
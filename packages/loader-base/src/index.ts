@@ -1,2 +1,3 @@
 /// <reference path="../global.d.ts" />
 export * from './loaders';
+export * from './core';
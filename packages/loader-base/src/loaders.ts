@@ -1,4 +1,25 @@
-import { ISkeletonParser, TextureAtlas } from "@pixi-spine/base";
+import {
+    AttachmentType,
+    IPackedSkeletonData,
+    ISkeletonData,
+    ISkeletonParser,
+    ITextureAtlasOptions,
+    ITextureAtlasPageSettings,
+    MultiTextureAtlas,
+    SkeletonDataPacker,
+    SkeletonValidator,
+    StringMap,
+    TextureAtlas,
+} from "@pixi-spine/base";
+import {
+    SpineLoadError,
+    SpineMissingAtlasError,
+    SpineMissingPageError,
+    SpineUnsupportedVersionError,
+    SpineValidationError,
+    toSpineLoadError,
+} from "./SpineLoadError";
+import type { SpineWorkerClient } from "./SpineWorker";
 
 function isJson(resource: PIXI.LoaderResource) {
     return resource.type === PIXI.LoaderResource.TYPE.JSON;
@@ -11,6 +32,347 @@ function isBuffer(resource: PIXI.LoaderResource) {
     );
 }
 
+function isBinaryUrl(url: string) {
+    return /\.skel$/.test(stripQueryString(url));
+}
+
+function stripQueryString(url: string) {
+    let queryStringPos = url.indexOf("?");
+    if (queryStringPos > 0) {
+        //remove querystring
+        return url.substr(0, queryStringPos);
+    }
+    return url;
+}
+
+function getBaseUrl(url: string) {
+    return url.substr(0, url.lastIndexOf("/") + 1);
+}
+
+/**
+ * Version string of json skeleton, binary versions are detected by the parser
+ */
+function readJsonVersion(dataToParse: any): string {
+    const skeleton = dataToParse && dataToParse.skeleton;
+    return (skeleton && skeleton.spine) || null;
+}
+
+/**
+ * Validator for `spineValidate` and `spineSkipMissingAttachments` options, null if validation is off
+ */
+function createValidator(options: any): SkeletonValidator {
+    if (!options.spineValidate && !options.spineSkipMissingAttachments) {
+        return null;
+    }
+    const validator = new SkeletonValidator();
+    validator.skipMissingAttachments = !!options.spineSkipMissingAttachments;
+    return validator;
+}
+
+/**
+ * Completes the report when the whole skeleton is read, missing regions fail the load unless they are skipped
+ */
+function finishValidation(
+    validator: SkeletonValidator,
+    spineData: ISkeletonData,
+    atlas: TextureAtlas,
+    url: string
+) {
+    validator.finish(spineData, atlas);
+    if (
+        !validator.skipMissingAttachments &&
+        validator.missingRegions.length > 0
+    ) {
+        throw new SpineValidationError(url, validator);
+    }
+}
+
+/**
+ * Skeleton parsed in a worker has no regions, they are found on the main thread by AtlasAttachmentLoader,
+ * so validation and placeholders work the same way as for skeletons parsed here
+ */
+function attachRegions(spineData: ISkeletonData, attachmentLoader: any) {
+    for (let i = 0; i < spineData.skins.length; i++) {
+        const skin = spineData.skins[i];
+
+        for (let j = 0; j < skin.attachments.length; j++) {
+            const attachments = skin.attachments[j];
+
+            for (const key in attachments) {
+                const attachment: any = attachments[key];
+                const isMesh =
+                    attachment.type === AttachmentType.Mesh ||
+                    attachment.type === AttachmentType.LinkedMesh;
+
+                if (!isMesh && attachment.type !== AttachmentType.Region) {
+                    continue;
+                }
+                // attachment can be shared by skins, it gets region only once
+                if (attachment.sequence) {
+                    if (!attachment.sequence.regions[0]) {
+                        attachmentLoader.loadSequence(
+                            attachment.name,
+                            attachment.path,
+                            attachment.sequence
+                        );
+                    }
+                } else if (!attachment.region) {
+                    const created = isMesh
+                        ? attachmentLoader.newMeshAttachment(
+                              skin,
+                              attachment.name,
+                              attachment.path,
+                              null
+                          )
+                        : attachmentLoader.newRegionAttachment(
+                              skin,
+                              attachment.name,
+                              attachment.path,
+                              null
+                          );
+
+                    attachment.region = created.region;
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Remembers the name of the page that image loader failed to load,
+ * TextureAtlas reports only the fact of failure.
+ */
+function trackMissingPage(
+    adapter: (
+        line: string,
+        callback: (baseTexture: PIXI.BaseTexture) => any
+    ) => any
+) {
+    const tracker = {
+        missingPage: null as string,
+        adapter(
+            line: string,
+            callback: (baseTexture: PIXI.BaseTexture) => any
+        ) {
+            adapter(line, (baseTexture: PIXI.BaseTexture) => {
+                if (!baseTexture) {
+                    tracker.missingPage = line;
+                }
+                callback(baseTexture);
+            });
+        },
+    };
+    return tracker;
+}
+
+/**
+ * use a bit of hackery to load the atlas file, here we assume that the .json, .atlas and .png files
+ * that correspond to the spine file are in the same base URL and that the .json and .atlas files
+ * have the same name
+ */
+function resolveAtlasPath(
+    url: string,
+    metadata: any,
+    variant: ISpineAtlasVariant = null
+) {
+    // use atlas path as a params. (no need to use same atlas file name with json file name)
+    if (metadata.spineAtlasFile) {
+        return metadata.spineAtlasFile;
+    }
+    const atlasPath = stripQueryString(url);
+    const suffix = variant ? variant.suffix : metadata.spineAtlasSuffix;
+
+    return (
+        atlasPath.substr(0, atlasPath.lastIndexOf(".")) + (suffix || ".atlas")
+    );
+}
+
+/**
+ * Picks the smallest atlas variant that is not lower than target resolution,
+ * or the biggest one if all of them are lower.
+ */
+function chooseAtlasVariant(metadata: any): ISpineAtlasVariant {
+    const variants: ISpineAtlasVariant[] = metadata.spineAtlasVariants;
+    if (metadata.spineAtlasFile || !variants || variants.length === 0) {
+        return null;
+    }
+    const target = metadata.spineAtlasResolution || PIXI.settings.RESOLUTION;
+
+    let best: ISpineAtlasVariant = variants[0];
+    for (let i = 1; i < variants.length; i++) {
+        const variant = variants[i];
+        if (
+            best.scale < target
+                ? variant.scale > best.scale
+                : variant.scale >= target && variant.scale < best.scale
+        ) {
+            best = variant;
+        }
+    }
+    return best;
+}
+
+function customImageLoader(
+    metadata: any,
+    loader: any,
+    namePrefix: string,
+    baseUrl: string,
+    imageOptions: any
+) {
+    if (metadata.images) {
+        return staticImageLoader(metadata.images);
+    }
+    if (metadata.image) {
+        return staticImageLoader({ default: metadata.image });
+    }
+    if (metadata.imageLoader) {
+        return metadata.imageLoader(loader, namePrefix, baseUrl, imageOptions);
+    }
+    return null;
+}
+
+function fetchResource(
+    fetchFunction: SpineFetchFunction,
+    url: string,
+    responseType: "json" | "text" | "arrayBuffer"
+): Promise<any> {
+    return Promise.resolve()
+        .then(() => fetchFunction(url))
+        .then((response) => {
+            if (!response.ok) {
+                throw new SpineLoadError(
+                    `Failed to load ${url}, status ${response.status}`,
+                    url
+                );
+            }
+            return response[responseType]();
+        })
+        .catch((e) => {
+            if (e instanceof SpineLoadError) {
+                throw e;
+            }
+            throw new SpineLoadError(`Failed to load ${url}: ${e}`, url, e);
+        });
+}
+
+function defaultFetch(url: string): Promise<ISpineFetchResponse> {
+    if (typeof fetch === "undefined") {
+        return Promise.reject(
+            new Error("fetch is not available, please pass options.fetch")
+        );
+    }
+    return fetch(url);
+}
+
+/**
+ * The part of fetch Response that is used by {@link AbstractSpineParser.load}
+ * @public
+ */
+export interface ISpineFetchResponse {
+    ok: boolean;
+    status: number;
+    json(): Promise<any>;
+    text(): Promise<string>;
+    arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * Function that is used instead of window.fetch, for example in tests or in node
+ * @public
+ */
+export type SpineFetchFunction = (url: string) => Promise<ISpineFetchResponse>;
+
+/**
+ * Options for {@link AbstractSpineParser.load}, they have the same meaning as the loader metadata fields
+ * @public
+ */
+export interface ISpineLoadOptions {
+    spineSkeletonScale?: number;
+    spineAtlas?: TextureAtlas;
+    spineAtlasSuffix?: string;
+    spineAtlasFile?: string;
+    /**
+     * Several atlases in priority order, images are loaded relative to each atlas file
+     */
+    spineAtlasFiles?: string[];
+    /**
+     * Regions are taken from spritesheet instead of spine atlas: parsed PIXI.Spritesheet or url of TexturePacker json
+     */
+    spineSpritesheet?: string | PIXI.Spritesheet;
+    /**
+     * Atlases exported with different texture scale, the one that fits
+     * `spineAtlasResolution` or `PIXI.settings.RESOLUTION` is loaded
+     */
+    spineAtlasVariants?: ISpineAtlasVariant[];
+    spineAtlasResolution?: number;
+    /**
+     * Atlas pages are loaded when their regions are shown for the first time, see {@link TextureAtlasPage.load}
+     */
+    lazyAtlasPages?: boolean;
+    /**
+     * Texture for regions of atlas pages that fail to load and for missing regions, `true` for a checkerboard,
+     * see {@link TextureAtlas.placeholder}
+     */
+    spinePlaceholder?: PIXI.Texture | boolean;
+    /**
+     * Filters and wraps of atlas pages by page name, they override the ones from atlas file
+     */
+    spinePageSettings?: { [pageName: string]: ITextureAtlasPageSettings };
+    /**
+     * 3.7 and 3.8 skeletons are converted to runtime 4.0 data, only loader-uni supports it
+     */
+    spineUpgradeData?: boolean;
+    /**
+     * Missing regions and mismatched page sizes are collected into {@link ISpineLoadResult.validator},
+     * load fails with {@link SpineValidationError} only after the whole skeleton is checked
+     */
+    spineValidate?: boolean;
+    /**
+     * Enables validation, attachments with missing regions are removed from skins instead of failing the load
+     */
+    spineSkipMissingAttachments?: boolean;
+    imageNamePrefix?: string;
+    atlasRawData?: string;
+    /**
+     * Same signature as in loader metadata, but there's no PIXI.Loader, the first argument is null
+     */
+    imageLoader?: any;
+    images?: any;
+    image?: any;
+    crossOrigin?: boolean | string;
+    /**
+     * Binary format is chosen by ".skel" extension by default
+     */
+    binary?: boolean;
+    fetch?: SpineFetchFunction;
+    /**
+     * Skeleton is parsed in a worker, main thread only finds its regions in atlas.
+     * Only `load()` supports it, PIXI.Loader middleware parses on the main thread.
+     */
+    spineWorker?: SpineWorkerClient;
+}
+
+/**
+ * Atlas exported with texture scale `scale`, its file name is skeleton name + `suffix`, for example `@2x.atlas`
+ * @public
+ */
+export interface ISpineAtlasVariant {
+    suffix: string;
+    scale: number;
+}
+
+/**
+ * @public
+ */
+export interface ISpineLoadResult {
+    spineData: ISkeletonData;
+    atlas: TextureAtlas;
+    /**
+     * Validation report, null if `spineValidate` and `spineSkipMissingAttachments` are not set
+     */
+    validator: SkeletonValidator;
+}
+
 PIXI.LoaderResource.setExtensionXhrType(
     "skel",
     PIXI.LoaderResource.XHR_RESPONSE_TYPE.BUFFER
@@ -31,6 +393,312 @@ export abstract class AbstractSpineParser {
         dataToParse: any
     ): void;
 
+    /**
+     * Loads skeleton, its atlas and atlas pages without PIXI.Loader
+     *
+     * @param url - url of json or skel file
+     * @param options - same as loader metadata fields
+     * @returns promise that is rejected with {@link SpineLoadError}
+     */
+    load(
+        url: string,
+        options: ISpineLoadOptions = {}
+    ): Promise<ISpineLoadResult> {
+        const fetchFunction = options.fetch || defaultFetch;
+        const isBinary =
+            options.binary !== undefined ? options.binary : isBinaryUrl(url);
+
+        if (options.spineWorker) {
+            return this.loadInWorker(url, options, fetchFunction, isBinary);
+        }
+
+        return fetchResource(
+            fetchFunction,
+            url,
+            isBinary ? "arrayBuffer" : "json"
+        ).then((data) => {
+            if (!isBinary && !data.bones) {
+                throw new SpineLoadError(`${url} is not a spine skeleton`, url);
+            }
+
+            const parser = isBinary
+                ? this.createBinaryParser()
+                : this.createJsonParser();
+            const dataToParse = isBinary ? new Uint8Array(data) : data;
+
+            if (options.spineSkeletonScale) {
+                parser.scale = options.spineSkeletonScale;
+            }
+            if (options.spineUpgradeData) {
+                parser.upgradeData = true;
+            }
+            parser.validator = createValidator(options);
+
+            return this.loadAtlas(url, options, fetchFunction).then((atlas) => {
+                const validator = parser.validator;
+                let spineData: ISkeletonData;
+
+                try {
+                    spineData = this.readSkeletonData(
+                        parser,
+                        atlas,
+                        dataToParse
+                    );
+                    if (validator) {
+                        finishValidation(validator, spineData, atlas, url);
+                    }
+                } catch (e) {
+                    throw toSpineLoadError(
+                        e,
+                        url,
+                        readJsonVersion(dataToParse)
+                    );
+                }
+
+                return { spineData, atlas, validator };
+            });
+        });
+    }
+
+    private loadInWorker(
+        url: string,
+        options: ISpineLoadOptions,
+        fetchFunction: SpineFetchFunction,
+        isBinary: boolean
+    ): Promise<ISpineLoadResult> {
+        // json text is parsed by the worker too
+        return fetchResource(
+            fetchFunction,
+            url,
+            isBinary ? "arrayBuffer" : "text"
+        ).then((data) => {
+            const parsing = options.spineWorker
+                .parse(
+                    data,
+                    isBinary,
+                    options.spineSkeletonScale || 1,
+                    !!options.spineUpgradeData
+                )
+                .catch((e) => {
+                    throw toSpineLoadError(e, url);
+                });
+
+            return Promise.all([
+                parsing,
+                this.loadAtlas(url, options, fetchFunction),
+            ]).then(([packed, atlas]) => {
+                const validator = createValidator(options);
+                let spineData: ISkeletonData;
+
+                try {
+                    spineData = this.readPackedSkeletonData(
+                        packed,
+                        atlas,
+                        validator
+                    );
+                    if (validator) {
+                        finishValidation(validator, spineData, atlas, url);
+                    }
+                } catch (e) {
+                    throw toSpineLoadError(e, url, packed.version);
+                }
+
+                return { spineData, atlas, validator };
+            });
+        });
+    }
+
+    /**
+     * Classes of the runtime that reads skeletons of that version, by their export names, null if there's none.
+     * They are needed to restore skeleton data parsed in a worker.
+     */
+    getRuntimeClasses(version: string): StringMap<Function> {
+        return null;
+    }
+
+    /**
+     * Restores skeleton data packed by a worker and finds regions of its attachments in atlas
+     */
+    readPackedSkeletonData(
+        packed: IPackedSkeletonData,
+        atlas: TextureAtlas,
+        validator: SkeletonValidator = null
+    ): ISkeletonData {
+        const classes = this.getRuntimeClasses(packed.version);
+
+        if (!classes) {
+            throw new SpineUnsupportedVersionError(null, packed.version);
+        }
+
+        const spineData = new SkeletonDataPacker(classes).unpack(packed);
+
+        attachRegions(
+            spineData,
+            new (classes.AtlasAttachmentLoader as any)(atlas, validator)
+        );
+
+        return spineData;
+    }
+
+    /**
+     * Parses skeleton with {@link AbstractSpineParser.parseData} without a loader resource
+     */
+    readSkeletonData(
+        parser: ISkeletonParser,
+        atlas: TextureAtlas,
+        dataToParse: any
+    ): ISkeletonData {
+        const holder = {} as PIXI.LoaderResource;
+
+        this.parseData(holder, parser, atlas, dataToParse);
+
+        return holder.spineData;
+    }
+
+    private loadAtlas(
+        url: string,
+        options: ISpineLoadOptions,
+        fetchFunction: SpineFetchFunction
+    ): Promise<TextureAtlas> {
+        if (options.spineAtlas && options.spineAtlas.pages) {
+            return Promise.resolve(options.spineAtlas);
+        }
+
+        const namePrefix = options.imageNamePrefix || url + "_atlas_page_";
+        const imageOptions = { crossOrigin: options.crossOrigin };
+        const createPageLoader = (baseUrl: string, namePrefix: string) =>
+            trackMissingPage(
+                customImageLoader(
+                    options,
+                    null,
+                    namePrefix,
+                    baseUrl,
+                    imageOptions
+                ) || baseTextureLoaderAdapter(baseUrl, options.crossOrigin)
+            );
+        const fetchAtlas = (atlasPath: string) =>
+            fetchResource(fetchFunction, atlasPath, "text").catch((e) => {
+                throw new SpineMissingAtlasError(url, atlasPath, e);
+            });
+
+        const spritesheet = options.spineSpritesheet;
+        if (spritesheet instanceof PIXI.Spritesheet) {
+            const spineAtlas = new TextureAtlas();
+            spineAtlas.addSpritesheet(spritesheet);
+            return Promise.resolve(spineAtlas);
+        }
+        if (spritesheet) {
+            return fetchResource(fetchFunction, spritesheet, "json")
+                .catch((e) => {
+                    throw new SpineMissingAtlasError(url, spritesheet, e);
+                })
+                .then(
+                    (data) =>
+                        new Promise<TextureAtlas>((resolve, reject) => {
+                            if (!data.frames || !data.meta) {
+                                throw new SpineLoadError(
+                                    `${spritesheet} is not a spritesheet`,
+                                    url,
+                                    null,
+                                    null,
+                                    spritesheet
+                                );
+                            }
+                            const pages = createPageLoader(
+                                getBaseUrl(spritesheet),
+                                namePrefix
+                            );
+                            pages.adapter(data.meta.image, (baseTexture) => {
+                                if (!baseTexture) {
+                                    reject(
+                                        new SpineMissingPageError(
+                                            url,
+                                            pages.missingPage
+                                        )
+                                    );
+                                    return;
+                                }
+                                const spineAtlas = new TextureAtlas();
+                                spineAtlas.addTexturePackerData(
+                                    data,
+                                    baseTexture
+                                );
+                                resolve(spineAtlas);
+                            });
+                        })
+                );
+        }
+
+        const atlasFiles = options.spineAtlasFiles;
+        if (atlasFiles && atlasFiles.length > 0) {
+            return Promise.all(
+                atlasFiles.map((atlasPath, i) =>
+                    this.createAtlas(
+                        url,
+                        fetchAtlas(atlasPath),
+                        createPageLoader(
+                            getBaseUrl(atlasPath),
+                            namePrefix + i + "_"
+                        ),
+                        {
+                            lazy: options.lazyAtlasPages,
+                            placeholder: options.spinePlaceholder,
+                            pageSettings: options.spinePageSettings,
+                        }
+                    )
+                )
+            ).then((atlases) => new MultiTextureAtlas(atlases));
+        }
+
+        const variant = chooseAtlasVariant(options);
+        const atlasPath = resolveAtlasPath(url, options, variant);
+        const rawData = options.atlasRawData
+            ? Promise.resolve(options.atlasRawData)
+            : fetchAtlas(atlasPath);
+
+        return this.createAtlas(
+            url,
+            rawData,
+            createPageLoader(getBaseUrl(url), namePrefix),
+            {
+                lazy: options.lazyAtlasPages,
+                resolution: variant ? variant.scale : 0,
+                placeholder: options.spinePlaceholder,
+                pageSettings: options.spinePageSettings,
+            }
+        );
+    }
+
+    private createAtlas(
+        url: string,
+        rawData: Promise<string>,
+        pages: ReturnType<typeof trackMissingPage>,
+        atlasOptions: ITextureAtlasOptions
+    ): Promise<TextureAtlas> {
+        return rawData.then(
+            (atlasText: string) =>
+                new Promise<TextureAtlas>((resolve, reject) => {
+                    new TextureAtlas(
+                        atlasText,
+                        pages.adapter,
+                        (spineAtlas) => {
+                            if (spineAtlas) {
+                                resolve(spineAtlas);
+                            } else {
+                                reject(
+                                    new SpineMissingPageError(
+                                        url,
+                                        pages.missingPage
+                                    )
+                                );
+                            }
+                        },
+                        atlasOptions
+                    );
+                })
+        );
+    }
+
     genMiddleware() {
         const self = this;
 
@@ -60,6 +728,32 @@ export abstract class AbstractSpineParser {
                 let parser: ISkeletonParser = null;
                 let dataToParse = resource.data;
 
+                function parseResource(spineAtlas: TextureAtlas) {
+                    try {
+                        self.parseData(
+                            resource,
+                            parser,
+                            spineAtlas,
+                            dataToParse
+                        );
+                        if (parser.validator) {
+                            resource.spineValidator = parser.validator;
+                            finishValidation(
+                                parser.validator,
+                                resource.spineData,
+                                spineAtlas,
+                                resource.url
+                            );
+                        }
+                    } catch (e) {
+                        resource.error = toSpineLoadError(
+                            e,
+                            resource.url,
+                            readJsonVersion(dataToParse)
+                        );
+                    }
+                }
+
                 if (isJsonSpineModel) {
                     parser = self.createJsonParser();
                 } else {
@@ -77,46 +771,21 @@ export abstract class AbstractSpineParser {
                 if (metadataSkeletonScale) {
                     parser.scale = metadataSkeletonScale;
                 }
+                if (metadata.spineUpgradeData) {
+                    parser.upgradeData = true;
+                }
+                parser.validator = createValidator(metadata);
 
                 const metadataAtlas = metadata.spineAtlas;
                 if (metadataAtlas === false) {
                     return next();
                 }
                 if (metadataAtlas && metadataAtlas.pages) {
-                    self.parseData(
-                        resource,
-                        parser,
-                        metadataAtlas,
-                        dataToParse
-                    );
+                    parseResource(metadataAtlas);
                     return next();
                 }
 
-                const metadataAtlasSuffix =
-                    metadata.spineAtlasSuffix || ".atlas";
-
-                /**
-                 * use a bit of hackery to load the atlas file, here we assume that the .json, .atlas and .png files
-                 * that correspond to the spine file are in the same base URL and that the .json and .atlas files
-                 * have the same name
-                 */
-                let atlasPath = resource.url;
-                let queryStringPos = atlasPath.indexOf("?");
-                if (queryStringPos > 0) {
-                    //remove querystring
-                    atlasPath = atlasPath.substr(0, queryStringPos);
-                }
-                atlasPath =
-                    atlasPath.substr(0, atlasPath.lastIndexOf(".")) +
-                    metadataAtlasSuffix;
-                // use atlas path as a params. (no need to use same atlas file name with json file name)
-                if (metadata.spineAtlasFile) {
-                    atlasPath = metadata.spineAtlasFile;
-                }
-
-                //remove the baseUrl
-                atlasPath = atlasPath.replace(this.baseUrl, "");
-
+                const loader = this;
                 const atlasOptions = {
                     crossOrigin: resource.crossOrigin,
                     xhrType: PIXI.LoaderResource.XHR_RESPONSE_TYPE.TEXT,
@@ -128,64 +797,223 @@ export abstract class AbstractSpineParser {
                     metadata: metadata.imageMetadata || null,
                     parentResource: resource,
                 };
-                let baseUrl = resource.url.substr(
-                    0,
-                    resource.url.lastIndexOf("/") + 1
-                );
-                //remove the baseUrl
-                baseUrl = baseUrl.replace(this.baseUrl, "");
 
-                const namePrefix =
-                    metadata.imageNamePrefix || resource.name + "_atlas_page_";
+                function createPageLoader(baseUrl: string, namePrefix: string) {
+                    let adapter = customImageLoader(
+                        metadata,
+                        loader,
+                        namePrefix,
+                        baseUrl,
+                        imageOptions
+                    );
+                    if (!adapter && metadata.lazyAtlasPages) {
+                        // loader is finished by the time lazy page is needed
+                        adapter = lazyImageLoaderAdapter(
+                            loader,
+                            baseUrl,
+                            resource.crossOrigin
+                        );
+                    }
+                    return trackMissingPage(
+                        adapter ||
+                            imageLoaderAdapter(
+                                loader,
+                                namePrefix,
+                                baseUrl,
+                                imageOptions
+                            )
+                    );
+                }
 
-                const adapter = metadata.images
-                    ? staticImageLoader(metadata.images)
-                    : metadata.image
-                    ? staticImageLoader({ default: metadata.image })
-                    : metadata.imageLoader
-                    ? metadata.imageLoader(
-                          this,
-                          namePrefix,
-                          baseUrl,
-                          imageOptions
-                      )
-                    : imageLoaderAdapter(
-                          this,
-                          namePrefix,
-                          baseUrl,
-                          imageOptions
-                      );
-
-                function createSkeletonWithRawAtlas(rawData: string) {
-                    new TextureAtlas(rawData, adapter, function (spineAtlas) {
-                        if (spineAtlas) {
-                            self.parseData(
-                                resource,
-                                parser,
-                                spineAtlas,
-                                dataToParse
-                            );
-                        }
-                        next();
-                    });
+                function loadAtlas(
+                    name: string,
+                    atlasPath: string,
+                    rawData: string,
+                    pages: ReturnType<typeof trackMissingPage>,
+                    resolution: number,
+                    callback: (
+                        error: SpineLoadError,
+                        spineAtlas?: TextureAtlas
+                    ) => void
+                ) {
+                    function createAtlas(atlasText: string) {
+                        new TextureAtlas(
+                            atlasText,
+                            pages.adapter,
+                            function (spineAtlas) {
+                                if (spineAtlas) {
+                                    callback(null, spineAtlas);
+                                } else {
+                                    callback(
+                                        new SpineMissingPageError(
+                                            resource.url,
+                                            pages.missingPage
+                                        )
+                                    );
+                                }
+                            },
+                            {
+                                lazy: metadata.lazyAtlasPages,
+                                resolution,
+                                placeholder: metadata.spinePlaceholder,
+                                pageSettings: metadata.spinePageSettings,
+                            }
+                        );
+                    }
+
+                    if (rawData) {
+                        createAtlas(rawData);
+                    } else {
+                        loader.add(
+                            name,
+                            atlasPath,
+                            atlasOptions,
+                            function (atlasResource: any) {
+                                if (!atlasResource.error) {
+                                    createAtlas(atlasResource.data);
+                                } else {
+                                    callback(
+                                        new SpineMissingAtlasError(
+                                            resource.url,
+                                            atlasPath,
+                                            atlasResource.error
+                                        )
+                                    );
+                                }
+                            }
+                        );
+                    }
                 }
 
-                if (metadata.atlasRawData) {
-                    createSkeletonWithRawAtlas(metadata.atlasRawData);
-                } else {
+                function complete(
+                    error: SpineLoadError,
+                    spineAtlas?: TextureAtlas
+                ) {
+                    if (error) {
+                        resource.error = error;
+                    } else {
+                        parseResource(spineAtlas);
+                    }
+                    next();
+                }
+
+                const spritesheet = metadata.spineSpritesheet;
+                if (spritesheet instanceof PIXI.Spritesheet) {
+                    const spineAtlas = new TextureAtlas();
+                    spineAtlas.addSpritesheet(spritesheet);
+                    complete(null, spineAtlas);
+                    return;
+                }
+                if (spritesheet) {
+                    //remove the baseUrl
+                    const spritesheetPath = spritesheet.replace(
+                        this.baseUrl,
+                        ""
+                    );
+                    // spritesheet middleware of PIXI.Loader loads its image
                     this.add(
-                        resource.name + "_atlas",
-                        atlasPath,
-                        atlasOptions,
-                        function (atlasResource: any) {
-                            if (!atlasResource.error) {
-                                createSkeletonWithRawAtlas(atlasResource.data);
+                        resource.name + "_spritesheet",
+                        spritesheetPath,
+                        {
+                            crossOrigin: resource.crossOrigin,
+                            metadata: {
+                                imageMetadata: metadata.imageMetadata || null,
+                            },
+                            parentResource: resource,
+                        },
+                        function (sheetResource: any) {
+                            if (sheetResource.error) {
+                                complete(
+                                    new SpineMissingAtlasError(
+                                        resource.url,
+                                        spritesheetPath,
+                                        sheetResource.error
+                                    )
+                                );
+                            } else if (!sheetResource.spritesheet) {
+                                const meta =
+                                    sheetResource.data &&
+                                    sheetResource.data.meta;
+                                complete(
+                                    new SpineMissingPageError(
+                                        resource.url,
+                                        meta ? meta.image : spritesheetPath
+                                    )
+                                );
                             } else {
-                                next();
+                                const spineAtlas = new TextureAtlas();
+                                spineAtlas.addSpritesheet(
+                                    sheetResource.spritesheet
+                                );
+                                complete(null, spineAtlas);
                             }
                         }
                     );
+                    return;
+                }
+
+                const namePrefix =
+                    metadata.imageNamePrefix || resource.name + "_atlas_page_";
+                const atlasFiles: string[] = metadata.spineAtlasFiles;
+
+                if (atlasFiles && atlasFiles.length > 0) {
+                    // atlases are merged in the given order, first one has the highest priority
+                    const atlases = new Array<TextureAtlas>(atlasFiles.length);
+                    let remaining = atlasFiles.length;
+                    let firstError: SpineLoadError = null;
+
+                    atlasFiles.forEach((atlasFile, i) => {
+                        //remove the baseUrl
+                        const atlasPath = atlasFile.replace(this.baseUrl, "");
+                        const pages = createPageLoader(
+                            getBaseUrl(atlasPath),
+                            namePrefix + i + "_"
+                        );
+
+                        loadAtlas(
+                            resource.name + "_atlas_" + i,
+                            atlasPath,
+                            null,
+                            pages,
+                            0,
+                            (error, spineAtlas) => {
+                                atlases[i] = spineAtlas;
+                                firstError = firstError || error;
+                                if (--remaining === 0) {
+                                    complete(
+                                        firstError,
+                                        firstError
+                                            ? null
+                                            : new MultiTextureAtlas(atlases)
+                                    );
+                                }
+                            }
+                        );
+                    });
+                    return;
                 }
+
+                const variant = chooseAtlasVariant(metadata);
+                //remove the baseUrl
+                const atlasPath = resolveAtlasPath(
+                    resource.url,
+                    metadata,
+                    variant
+                ).replace(this.baseUrl, "");
+                //remove the baseUrl
+                const baseUrl = getBaseUrl(resource.url).replace(
+                    this.baseUrl,
+                    ""
+                );
+
+                loadAtlas(
+                    resource.name + "_atlas",
+                    atlasPath,
+                    metadata.atlasRawData,
+                    createPageLoader(baseUrl, namePrefix),
+                    variant ? variant.scale : 0,
+                    complete
+                );
             },
         };
     }
@@ -242,6 +1070,42 @@ export function imageLoaderAdapter(
     };
 }
 
+/**
+ * Loads atlas pages with PIXI.BaseTexture.from, doesn't need PIXI.Loader
+ * @public
+ */
+export function baseTextureLoaderAdapter(baseUrl: any, crossOrigin: any) {
+    if (baseUrl && baseUrl.lastIndexOf("/") !== baseUrl.length - 1) {
+        baseUrl += "/";
+    }
+    return function (
+        line: string,
+        callback: (baseTexture: PIXI.BaseTexture) => any
+    ) {
+        const baseTexture = PIXI.BaseTexture.from(baseUrl + line, {
+            resourceOptions: { crossorigin: crossOrigin },
+        });
+        const done = () => {
+            baseTexture.off("error", fail);
+            if (line.indexOf("-pma.") >= 0) {
+                baseTexture.alphaMode = PIXI.ALPHA_MODES.PMA;
+            }
+            callback(baseTexture);
+        };
+        const fail = () => {
+            baseTexture.off("loaded", done);
+            callback(null);
+        };
+
+        if (baseTexture.valid) {
+            done();
+        } else {
+            baseTexture.once("loaded", done);
+            baseTexture.once("error", fail);
+        }
+    };
+}
+
 /**
  * @public
  */
@@ -254,6 +1118,24 @@ export function syncImageLoaderAdapter(baseUrl: any, crossOrigin: any) {
     };
 }
 
+/**
+ * Loads pages with {@link baseTextureLoaderAdapter}, urls are resolved the same way loader does it
+ */
+function lazyImageLoaderAdapter(
+    loader: any,
+    baseUrl: string,
+    crossOrigin: any
+) {
+    const adapter = baseTextureLoaderAdapter("", crossOrigin);
+
+    return function (
+        line: string,
+        callback: (baseTexture: PIXI.BaseTexture) => any
+    ) {
+        adapter(loader._prepareUrl(baseUrl + line), callback);
+    };
+}
+
 /**
  * @public
  */
@@ -1,8 +1,26 @@
 const {main} = require('@pixi-spine/rollup-config/main');
 
-module.exports = main({
-    globals: {
-        '@pixi-spine/base': 'PIXI.spine',
-        '@pixi-spine/loader-base': 'PIXI.spine',
-    },
-});
+module.exports = [
+    ...main({
+        globals: {
+            '@pixi-spine/base': 'PIXI.spine',
+            '@pixi-spine/loader-base': 'PIXI.spine',
+        },
+    }),
+    // parsers without PIXI for node, dependencies are taken from their core entries too
+    ...main({
+        input: 'src/core.ts',
+        main: 'lib/core.js',
+        module: 'lib/core.es.js',
+        bundle: false,
+        paths: {
+            '@pixi-spine/base': '@pixi-spine/base/lib/core',
+            '@pixi-spine/loader-base': '@pixi-spine/loader-base/lib/core',
+            '@pixi-spine/runtime-3.7': '@pixi-spine/runtime-3.7/lib/core',
+            '@pixi-spine/runtime-3.8': '@pixi-spine/runtime-3.8/lib/core',
+            '@pixi-spine/runtime-4.0': '@pixi-spine/runtime-4.0/lib/core',
+            '@pixi-spine/runtime-4.1': '@pixi-spine/runtime-4.1/lib/core',
+            '@pixi-spine/runtime-4.2': '@pixi-spine/runtime-4.2/lib/core',
+        },
+    }),
+];
@@ -0,0 +1,803 @@
+import {
+    AttachmentType,
+    Color,
+    ISkeletonData,
+    TextureAtlas,
+} from "@pixi-spine/base";
+import * as spine37 from "@pixi-spine/runtime-3.7";
+import * as spine38 from "@pixi-spine/runtime-3.8";
+import * as spine40 from "@pixi-spine/runtime-4.0";
+import { detectSpineVersion, SPINE_VERSION } from "./versions";
+
+const TimelineType = spine38.TimelineType;
+
+/**
+ * Converts 3.7 and 3.8 skeleton data to the runtime 4.0 model, so old assets can be used without re-export.
+ *
+ * Color timelines become RGBA timelines, two color timelines become RGBA2, constraint mixes are split per axis
+ * and curves are converted to the 4.0 format. Attachments keep their atlas regions.
+ * @public
+ */
+export class SkeletonDataUpgrader {
+    /**
+     * Scale for {@link SkeletonDataUpgrader.upgradeJson}, the same as `SkeletonJson.scale`
+     */
+    scale = 1;
+
+    /**
+     * Reads 3.7, 3.8 or 4.0 json and returns 4.0 skeleton data
+     */
+    upgradeJson(atlas: TextureAtlas, json: any): spine40.SkeletonData {
+        const version = json.skeleton ? json.skeleton.spine : null;
+        const ver = version
+            ? detectSpineVersion(version)
+            : SPINE_VERSION.UNKNOWN;
+        let parser: any = null;
+
+        if (ver === SPINE_VERSION.VER37) {
+            parser = new spine37.SkeletonJson(
+                new spine37.AtlasAttachmentLoader(atlas)
+            );
+        }
+        if (ver === SPINE_VERSION.VER38) {
+            parser = new spine38.SkeletonJson(
+                new spine38.AtlasAttachmentLoader(atlas)
+            );
+        }
+        if (ver === SPINE_VERSION.VER40) {
+            parser = new spine40.SkeletonJson(
+                new spine40.AtlasAttachmentLoader(atlas)
+            );
+        }
+        if (!parser) {
+            throw new Error(`Can't upgrade skeleton of version ${version}`);
+        }
+        parser.scale = this.scale;
+
+        return this.upgrade(parser.readSkeletonData(json));
+    }
+
+    /**
+     * Returns 4.0 skeleton data with the same bones, slots, constraints, skins, events and animations.
+     * 4.0 data is returned as is.
+     */
+    upgrade(skeletonData: ISkeletonData): spine40.SkeletonData {
+        const ver = detectSpineVersion(skeletonData.version);
+
+        if (ver === SPINE_VERSION.VER40) {
+            return skeletonData as spine40.SkeletonData;
+        }
+        if (ver !== SPINE_VERSION.VER37 && ver !== SPINE_VERSION.VER38) {
+            throw new Error(
+                `Can't upgrade skeleton of version ${skeletonData.version}`
+            );
+        }
+
+        // 3.7 model is 3.8 without skin bones, skin constraints and IK softness
+        const old = skeletonData as spine38.SkeletonData;
+        const data = new spine40.SkeletonData();
+
+        data.name = old.name;
+        data.hash = old.hash;
+        data.version = "4.0";
+        data.x = old.x || 0;
+        data.y = old.y || 0;
+        data.width = old.width;
+        data.height = old.height;
+        data.fps = old.fps;
+        data.imagesPath = old.imagesPath;
+        data.audioPath = old.audioPath;
+
+        for (let i = 0; i < old.bones.length; i++) {
+            const from = old.bones[i];
+            const to = new spine40.BoneData(
+                i,
+                from.name,
+                from.parent ? data.bones[from.parent.index] : null
+            );
+
+            to.length = from.length;
+            to.x = from.x;
+            to.y = from.y;
+            to.rotation = from.rotation;
+            to.scaleX = from.scaleX;
+            to.scaleY = from.scaleY;
+            to.shearX = from.shearX;
+            to.shearY = from.shearY;
+            to.transformMode = from.transformMode;
+            to.skinRequired = !!from.skinRequired;
+            if (from.color) to.color.setFromColor(from.color);
+            data.bones.push(to);
+        }
+
+        for (let i = 0; i < old.slots.length; i++) {
+            const from = old.slots[i];
+            const to = new spine40.SlotData(
+                i,
+                from.name,
+                data.bones[from.boneData.index]
+            );
+
+            to.color.setFromColor(from.color);
+            if (from.darkColor) {
+                to.darkColor = new Color().setFromColor(from.darkColor);
+            }
+            to.attachmentName = from.attachmentName;
+            to.blendMode = from.blendMode;
+            data.slots.push(to);
+        }
+
+        for (let i = 0; i < old.ikConstraints.length; i++) {
+            const from = old.ikConstraints[i];
+            const to = new spine40.IkConstraintData(from.name);
+
+            to.order = from.order;
+            to.skinRequired = !!from.skinRequired;
+            to.bones = from.bones.map((bone) => data.bones[bone.index]);
+            to.target = data.bones[from.target.index];
+            to.mix = from.mix;
+            to.softness = from.softness || 0;
+            to.bendDirection = from.bendDirection;
+            to.compress = from.compress;
+            to.stretch = from.stretch;
+            to.uniform = from.uniform;
+            data.ikConstraints.push(to);
+        }
+
+        for (let i = 0; i < old.transformConstraints.length; i++) {
+            const from = old.transformConstraints[i];
+            const to = new spine40.TransformConstraintData(from.name);
+
+            to.order = from.order;
+            to.skinRequired = !!from.skinRequired;
+            to.bones = from.bones.map((bone) => data.bones[bone.index]);
+            to.target = data.bones[from.target.index];
+            to.mixRotate = from.rotateMix;
+            to.mixX = to.mixY = from.translateMix;
+            to.mixScaleX = to.mixScaleY = from.scaleMix;
+            to.mixShearY = from.shearMix;
+            to.offsetRotation = from.offsetRotation;
+            to.offsetX = from.offsetX;
+            to.offsetY = from.offsetY;
+            to.offsetScaleX = from.offsetScaleX;
+            to.offsetScaleY = from.offsetScaleY;
+            to.offsetShearY = from.offsetShearY;
+            to.relative = from.relative;
+            to.local = from.local;
+            data.transformConstraints.push(to);
+        }
+
+        for (let i = 0; i < old.pathConstraints.length; i++) {
+            const from = old.pathConstraints[i];
+            const to = new spine40.PathConstraintData(from.name);
+
+            to.order = from.order;
+            to.skinRequired = !!from.skinRequired;
+            to.bones = from.bones.map((bone) => data.bones[bone.index]);
+            to.target = data.slots[from.target.index];
+            to.positionMode = from.positionMode;
+            // Length, Fixed and Percent have the same values in 4.0
+            to.spacingMode = from.spacingMode as number;
+            to.rotateMode = from.rotateMode;
+            to.offsetRotation = from.offsetRotation;
+            to.position = from.position;
+            to.spacing = from.spacing;
+            to.mixRotate = from.rotateMix;
+            to.mixX = to.mixY = from.translateMix;
+            data.pathConstraints.push(to);
+        }
+
+        for (let i = 0; i < old.skins.length; i++) {
+            const skin = this.upgradeSkin(old.skins[i], old, data);
+
+            data.skins.push(skin);
+            if (old.skins[i] === old.defaultSkin) data.defaultSkin = skin;
+        }
+
+        // Parents can be in any skin, link meshes after all skins are there
+        for (let i = 0; i < old.skins.length; i++) {
+            const attachments = old.skins[i].attachments;
+
+            for (
+                let slotIndex = 0;
+                slotIndex < attachments.length;
+                slotIndex++
+            ) {
+                for (const name in attachments[slotIndex]) {
+                    const from = attachments[slotIndex][
+                        name
+                    ] as spine38.MeshAttachment;
+                    const parent =
+                        from instanceof spine37.MeshAttachment ||
+                        from instanceof spine38.MeshAttachment
+                            ? from.getParentMesh()
+                            : null;
+
+                    if (!parent) continue;
+
+                    const to = data.skins[i].getAttachment(
+                        slotIndex,
+                        name
+                    ) as spine40.MeshAttachment;
+                    const toParent = findUpgraded(
+                        old,
+                        data,
+                        slotIndex,
+                        parent
+                    ) as spine40.MeshAttachment;
+                    // 3.7 meshes have inheritDeform instead of deformAttachment
+                    const inheritDeform = from.deformAttachment
+                        ? from.deformAttachment === parent
+                        : (from as any).inheritDeform;
+
+                    to.deformAttachment = inheritDeform ? toParent : to;
+                    to.setParentMesh(toParent);
+                }
+            }
+        }
+
+        for (let i = 0; i < old.events.length; i++) {
+            const from = old.events[i];
+            const to = new spine40.EventData(from.name);
+
+            to.intValue = from.intValue;
+            to.floatValue = from.floatValue;
+            to.stringValue = from.stringValue;
+            to.audioPath = from.audioPath;
+            to.volume = from.volume;
+            to.balance = from.balance;
+            data.events.push(to);
+        }
+
+        for (let i = 0; i < old.animations.length; i++) {
+            data.animations.push(
+                this.upgradeAnimation(old.animations[i], old, data)
+            );
+        }
+
+        return data;
+    }
+
+    private upgradeSkin(
+        from: spine38.Skin,
+        old: spine38.SkeletonData,
+        data: spine40.SkeletonData
+    ): spine40.Skin {
+        const to = new spine40.Skin(from.name);
+
+        if (from.bones) {
+            to.bones = from.bones.map((bone) => data.bones[bone.index]);
+        }
+        if (from.constraints) {
+            for (let i = 0; i < from.constraints.length; i++) {
+                const constraint: any = from.constraints[i];
+                let index = old.ikConstraints.indexOf(constraint);
+
+                if (index >= 0) {
+                    to.constraints.push(data.ikConstraints[index]);
+                    continue;
+                }
+                index = old.transformConstraints.indexOf(constraint);
+                if (index >= 0) {
+                    to.constraints.push(data.transformConstraints[index]);
+                    continue;
+                }
+                index = old.pathConstraints.indexOf(constraint);
+                if (index >= 0) {
+                    to.constraints.push(data.pathConstraints[index]);
+                }
+            }
+        }
+
+        for (
+            let slotIndex = 0;
+            slotIndex < from.attachments.length;
+            slotIndex++
+        ) {
+            for (const name in from.attachments[slotIndex]) {
+                const attachment = upgradeAttachment(
+                    from.attachments[slotIndex][name],
+                    data
+                );
+
+                if (attachment) to.setAttachment(slotIndex, name, attachment);
+            }
+        }
+
+        return to;
+    }
+
+    private upgradeAnimation(
+        animation: spine38.Animation,
+        old: spine38.SkeletonData,
+        data: spine40.SkeletonData
+    ): spine40.Animation {
+        const timelines: spine40.Timeline[] = [];
+
+        for (let i = 0; i < animation.timelines.length; i++) {
+            const from: any = animation.timelines[i];
+            const frames: ArrayLike<number> = from.frames;
+            const frameCount = from.getFrameCount
+                ? from.getFrameCount()
+                : frames.length;
+            let to: spine40.Timeline = null;
+
+            switch (from.getPropertyId() >> 24) {
+                case TimelineType.rotate: {
+                    const timeline = new spine40.RotateTimeline(
+                        frameCount,
+                        bezierCount(from, 1),
+                        from.boneIndex
+                    );
+                    // 3.x takes the shortest way between keys, 4.0 interpolates values as they are
+                    let rotation = frames[1];
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        const r = frames[frame * 2 + 1];
+
+                        if (frame > 0) {
+                            const diff = r - frames[frame * 2 - 1];
+
+                            rotation +=
+                                diff -
+                                (16384 -
+                                    ((16384.499999999996 - diff / 360) | 0)) *
+                                    360;
+                        }
+                        timeline.setFrame(frame, frames[frame * 2], rotation);
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.translate:
+                case TimelineType.scale:
+                case TimelineType.shear: {
+                    const type = from.getPropertyId() >> 24;
+                    const bezier = bezierCount(from, 2);
+                    const timeline =
+                        type === TimelineType.translate
+                            ? new spine40.TranslateTimeline(
+                                  frameCount,
+                                  bezier,
+                                  from.boneIndex
+                              )
+                            : type === TimelineType.scale
+                            ? new spine40.ScaleTimeline(
+                                  frameCount,
+                                  bezier,
+                                  from.boneIndex
+                              )
+                            : new spine40.ShearTimeline(
+                                  frameCount,
+                                  bezier,
+                                  from.boneIndex
+                              );
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        const f = frame * 3;
+
+                        timeline.setFrame(
+                            frame,
+                            frames[f],
+                            frames[f + 1],
+                            frames[f + 2]
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.color: {
+                    const timeline = new spine40.RGBATimeline(
+                        frameCount,
+                        bezierCount(from, 4),
+                        from.slotIndex
+                    );
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        const f = frame * 5;
+
+                        timeline.setFrame(
+                            frame,
+                            frames[f],
+                            frames[f + 1],
+                            frames[f + 2],
+                            frames[f + 3],
+                            frames[f + 4]
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.twoColor: {
+                    const timeline = new spine40.RGBA2Timeline(
+                        frameCount,
+                        bezierCount(from, 7),
+                        from.slotIndex
+                    );
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        const f = frame * 8;
+
+                        timeline.setFrame(
+                            frame,
+                            frames[f],
+                            frames[f + 1],
+                            frames[f + 2],
+                            frames[f + 3],
+                            frames[f + 4],
+                            frames[f + 5],
+                            frames[f + 6],
+                            frames[f + 7]
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.attachment: {
+                    const timeline = new spine40.AttachmentTimeline(
+                        frameCount,
+                        from.slotIndex
+                    );
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        timeline.setFrame(
+                            frame,
+                            frames[frame],
+                            from.attachmentNames[frame]
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.deform: {
+                    const attachment = findUpgraded(
+                        old,
+                        data,
+                        from.slotIndex,
+                        from.attachment
+                    ) as spine40.VertexAttachment;
+
+                    if (!attachment) continue;
+
+                    const timeline = new spine40.DeformTimeline(
+                        frameCount,
+                        bezierCount(from, 1),
+                        from.slotIndex,
+                        attachment
+                    );
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        timeline.setFrame(
+                            frame,
+                            frames[frame],
+                            from.frameVertices[frame]
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.event: {
+                    const timeline = new spine40.EventTimeline(frameCount);
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        const event = from.events[frame];
+                        const eventData =
+                            data.events[old.events.indexOf(event.data)];
+                        const upgraded = new spine40.Event(
+                            event.time,
+                            eventData
+                        );
+
+                        upgraded.intValue = event.intValue;
+                        upgraded.floatValue = event.floatValue;
+                        upgraded.stringValue = event.stringValue;
+                        upgraded.volume = event.volume;
+                        upgraded.balance = event.balance;
+                        timeline.setFrame(frame, upgraded);
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.drawOrder: {
+                    const timeline = new spine40.DrawOrderTimeline(frameCount);
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        timeline.setFrame(
+                            frame,
+                            frames[frame],
+                            from.drawOrders[frame]
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.ikConstraint: {
+                    const timeline = new spine40.IkConstraintTimeline(
+                        frameCount,
+                        bezierCount(from, 2),
+                        from.ikConstraintIndex
+                    );
+                    // 3.7 has no softness
+                    const entries = frames.length / frameCount;
+                    const soft = entries === 6 ? 1 : 0;
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        const f = frame * entries;
+
+                        timeline.setFrame(
+                            frame,
+                            frames[f],
+                            frames[f + 1],
+                            soft ? frames[f + 2] : 0,
+                            frames[f + 2 + soft],
+                            frames[f + 3 + soft] !== 0,
+                            frames[f + 4 + soft] !== 0
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.transformConstraint: {
+                    const timeline = new spine40.TransformConstraintTimeline(
+                        frameCount,
+                        bezierCount(from, 6),
+                        from.transformConstraintIndex
+                    );
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        const f = frame * 5;
+
+                        timeline.setFrame(
+                            frame,
+                            frames[f],
+                            frames[f + 1],
+                            frames[f + 2],
+                            frames[f + 2],
+                            frames[f + 3],
+                            frames[f + 3],
+                            frames[f + 4]
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.pathConstraintPosition:
+                case TimelineType.pathConstraintSpacing: {
+                    const timeline =
+                        from.getPropertyId() >> 24 ===
+                        TimelineType.pathConstraintPosition
+                            ? new spine40.PathConstraintPositionTimeline(
+                                  frameCount,
+                                  bezierCount(from, 1),
+                                  from.pathConstraintIndex
+                              )
+                            : new spine40.PathConstraintSpacingTimeline(
+                                  frameCount,
+                                  bezierCount(from, 1),
+                                  from.pathConstraintIndex
+                              );
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        timeline.setFrame(
+                            frame,
+                            frames[frame * 2],
+                            frames[frame * 2 + 1]
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+                case TimelineType.pathConstraintMix: {
+                    const timeline = new spine40.PathConstraintMixTimeline(
+                        frameCount,
+                        bezierCount(from, 3),
+                        from.pathConstraintIndex
+                    );
+
+                    for (let frame = 0; frame < frameCount; frame++) {
+                        const f = frame * 3;
+
+                        timeline.setFrame(
+                            frame,
+                            frames[f],
+                            frames[f + 1],
+                            frames[f + 2],
+                            frames[f + 2]
+                        );
+                    }
+                    to = timeline;
+                    break;
+                }
+            }
+
+            if (!to) continue;
+            if (to instanceof spine40.CurveTimeline) upgradeCurves(from, to);
+            timelines.push(to);
+        }
+
+        return new spine40.Animation(
+            animation.name,
+            timelines,
+            animation.duration
+        );
+    }
+}
+
+/**
+ * Number of Bezier curves that 4.0 timeline needs, one per value of each Bezier frame
+ */
+function bezierCount(timeline: spine38.CurveTimeline, valueCount: number) {
+    let count = 0;
+
+    for (let frame = 0, n = timeline.getFrameCount() - 1; frame < n; frame++) {
+        if (timeline.getCurveType(frame) === spine38.CurveTimeline.BEZIER)
+            count += valueCount;
+    }
+
+    return count;
+}
+
+/**
+ * 3.x handles are fractions of time and value between two frames, 4.0 handles are absolute.
+ * Frames of the upgraded timeline have to be set already.
+ */
+function upgradeCurves(from: spine38.CurveTimeline, to: spine40.CurveTimeline) {
+    const frames = to.frames;
+    const entries = to.getFrameEntries();
+    const deform = to instanceof spine40.DeformTimeline;
+    // Bend direction, compress and stretch of IK frames are stepped
+    const valueCount = deform
+        ? 1
+        : to instanceof spine40.IkConstraintTimeline
+        ? 2
+        : entries - 1;
+    let bezier = 0;
+
+    for (let frame = 0, n = to.getFrameCount() - 1; frame < n; frame++) {
+        const type = from.getCurveType(frame);
+
+        if (type === spine38.CurveTimeline.STEPPED) {
+            to.setStepped(frame);
+        } else if (type === spine38.CurveTimeline.BEZIER) {
+            const handles = from.getCurve(frame);
+            const f = frame * entries;
+            const time1 = frames[f];
+            const time2 = frames[f + entries];
+
+            for (let value = 0; value < valueCount; value++) {
+                // Deform timelines interpolate from 0 to 1
+                const value1 = deform ? 0 : frames[f + 1 + value];
+                const value2 = deform ? 1 : frames[f + entries + 1 + value];
+
+                to.setBezier(
+                    bezier++,
+                    frame,
+                    value,
+                    time1,
+                    value1,
+                    time1 + handles[0] * (time2 - time1),
+                    value1 + handles[1] * (value2 - value1),
+                    time1 + handles[2] * (time2 - time1),
+                    value1 + handles[3] * (value2 - value1),
+                    time2,
+                    value2
+                );
+            }
+        }
+    }
+}
+
+/**
+ * Finds where the attachment is in old skins and returns the attachment from the same place of upgraded skins
+ */
+function findUpgraded(
+    old: spine38.SkeletonData,
+    data: spine40.SkeletonData,
+    slotIndex: number,
+    attachment: any
+): spine40.Attachment {
+    for (let i = 0; i < old.skins.length; i++) {
+        const attachments = old.skins[i].attachments[slotIndex];
+
+        for (const name in attachments) {
+            if (attachments[name] === attachment)
+                return data.skins[i].getAttachment(slotIndex, name);
+        }
+    }
+
+    return null;
+}
+
+function upgradeAttachment(
+    from: any,
+    data: spine40.SkeletonData
+): spine40.Attachment {
+    switch (from.type as AttachmentType) {
+        case AttachmentType.Region: {
+            const to = new spine40.RegionAttachment(from.name);
+
+            to.path = from.path;
+            to.region = from.region;
+            to.rendererObject = from.rendererObject;
+            to.x = from.x;
+            to.y = from.y;
+            to.scaleX = from.scaleX;
+            to.scaleY = from.scaleY;
+            to.rotation = from.rotation;
+            to.width = from.width;
+            to.height = from.height;
+            to.color.setFromColor(from.color);
+
+            return to;
+        }
+        case AttachmentType.BoundingBox: {
+            const to = new spine40.BoundingBoxAttachment(from.name);
+
+            copyVertices(from, to);
+            to.color.setFromColor(from.color);
+
+            return to;
+        }
+        case AttachmentType.Mesh:
+        case AttachmentType.LinkedMesh: {
+            const to = new spine40.MeshAttachment(from.name);
+
+            to.path = from.path;
+            to.region = from.region;
+            to.color.setFromColor(from.color);
+            to.width = from.width;
+            to.height = from.height;
+            // linked meshes get the rest from the parent
+            if (!from.getParentMesh()) {
+                copyVertices(from, to);
+                to.regionUVs = from.regionUVs;
+                to.triangles = from.triangles;
+                to.hullLength = from.hullLength;
+                to.edges = from.edges;
+            }
+
+            return to;
+        }
+        case AttachmentType.Path: {
+            const to = new spine40.PathAttachment(from.name);
+
+            copyVertices(from, to);
+            to.lengths = from.lengths;
+            to.closed = from.closed;
+            to.constantSpeed = from.constantSpeed;
+            to.color.setFromColor(from.color);
+
+            return to;
+        }
+        case AttachmentType.Point: {
+            const to = new spine40.PointAttachment(from.name);
+
+            to.x = from.x;
+            to.y = from.y;
+            to.rotation = from.rotation;
+            to.color.setFromColor(from.color);
+
+            return to;
+        }
+        case AttachmentType.Clipping: {
+            const to = new spine40.ClippingAttachment(from.name);
+
+            copyVertices(from, to);
+            to.endSlot = from.endSlot ? data.slots[from.endSlot.index] : null;
+            to.color.setFromColor(from.color);
+
+            return to;
+        }
+    }
+
+    return null;
+}
+
+function copyVertices(
+    from: spine38.VertexAttachment,
+    to: spine40.VertexAttachment
+) {
+    to.bones = from.bones;
+    to.vertices = from.vertices;
+    to.worldVerticesLength = from.worldVerticesLength;
+}
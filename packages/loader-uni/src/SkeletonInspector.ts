@@ -0,0 +1,278 @@
+import {
+    ISkeletonData,
+    TextureAtlasData,
+    TextureAtlasRegionData,
+} from "@pixi-spine/base";
+import { detectSpineVersion, SPINE_VERSION } from "./versions";
+
+/**
+ * Atlas for reading skeletons without regions, all attachments get the same empty region.
+ * `pixi-spine inspect` uses it when skeleton has no atlas file.
+ * @public
+ */
+export class RegionlessAtlas extends TextureAtlasData {
+    region = new TextureAtlasRegionData();
+
+    findRegion(name: string): TextureAtlasRegionData {
+        return this.region;
+    }
+}
+
+/**
+ * @public
+ */
+export interface IInspectedEvent {
+    name: string;
+    time: number;
+}
+
+/**
+ * @public
+ */
+export interface IInspectedAnimation {
+    name: string;
+    /**
+     * Seconds
+     */
+    duration: number;
+    /**
+     * Event keys in order of time
+     */
+    events: IInspectedEvent[];
+}
+
+/**
+ * @public
+ */
+export interface IInspectedConstraint {
+    type: "ik" | "transform" | "path" | "physics";
+    name: string;
+    bones: string[];
+    /**
+     * Target bone, target slot for path constraints, null for physics
+     */
+    target: string;
+}
+
+/**
+ * Summary of skeleton data made by {@link SkeletonInspector}, it contains only names and numbers, so it can be saved as json
+ * @public
+ */
+export interface ISkeletonInfo {
+    /**
+     * Editor version written in skeleton file
+     */
+    version: string;
+    /**
+     * Runtime that reads it, UNKNOWN if none
+     */
+    runtime: SPINE_VERSION;
+    hash: string;
+    width: number;
+    height: number;
+    bones: Array<{ name: string; parent: string }>;
+    slots: Array<{ name: string; bone: string; attachment: string }>;
+    skins: Array<{ name: string; attachments: number }>;
+    events: string[];
+    animations: IInspectedAnimation[];
+    constraints: IInspectedConstraint[];
+}
+
+function names(list: Array<{ name: string }>) {
+    const result: string[] = [];
+
+    for (let i = 0; i < list.length; i++) {
+        result.push(list[i].name);
+    }
+
+    return result;
+}
+
+/**
+ * Lists what skeleton data contains: bones, slots, skins, animations with their event keys and constraints.
+ * Works with skeleton data of any runtime, used by `pixi-spine inspect` command.
+ *
+ * ```js
+ * const info = new SkeletonInspector().inspect(skeletonData);
+ * console.log(new SkeletonInspector().toText(info));
+ * ```
+ * @public
+ */
+export class SkeletonInspector {
+    inspect(skeletonData: ISkeletonData): ISkeletonInfo {
+        const data: any = skeletonData;
+        const version = data.version || null;
+        const info: ISkeletonInfo = {
+            version,
+            runtime: version
+                ? detectSpineVersion(version)
+                : SPINE_VERSION.UNKNOWN,
+            hash: data.hash || null,
+            width: data.width,
+            height: data.height,
+            bones: [],
+            slots: [],
+            skins: [],
+            events: names(data.events),
+            animations: [],
+            constraints: [],
+        };
+
+        for (let i = 0; i < data.bones.length; i++) {
+            const bone = data.bones[i];
+
+            info.bones.push({
+                name: bone.name,
+                parent: bone.parent ? bone.parent.name : null,
+            });
+        }
+        for (let i = 0; i < data.slots.length; i++) {
+            const slot = data.slots[i];
+
+            info.slots.push({
+                name: slot.name,
+                bone: slot.boneData.name,
+                attachment: slot.attachmentName || null,
+            });
+        }
+        for (let i = 0; i < data.skins.length; i++) {
+            const skin = data.skins[i];
+            let count = 0;
+
+            for (let j = 0; j < skin.attachments.length; j++) {
+                const attachments = skin.attachments[j];
+
+                if (attachments) {
+                    count += Object.keys(attachments).length;
+                }
+            }
+            info.skins.push({ name: skin.name, attachments: count });
+        }
+        for (let i = 0; i < data.animations.length; i++) {
+            info.animations.push(this.inspectAnimation(data.animations[i]));
+        }
+
+        this.addConstraints(info, "ik", data.ikConstraints);
+        this.addConstraints(info, "transform", data.transformConstraints);
+        this.addConstraints(info, "path", data.pathConstraints);
+        // 4.2 and later
+        this.addConstraints(info, "physics", data.physicsConstraints);
+
+        return info;
+    }
+
+    private inspectAnimation(animation: any): IInspectedAnimation {
+        const events: IInspectedEvent[] = [];
+
+        for (let i = 0; i < animation.timelines.length; i++) {
+            const timeline = animation.timelines[i];
+
+            // event timeline is the only one with events, in all runtimes
+            if (!timeline.events) {
+                continue;
+            }
+            for (let j = 0; j < timeline.events.length; j++) {
+                const event = timeline.events[j];
+
+                events.push({ name: event.data.name, time: event.time });
+            }
+        }
+        events.sort((a, b) => a.time - b.time);
+
+        return {
+            name: animation.name,
+            duration: animation.duration,
+            events,
+        };
+    }
+
+    private addConstraints(
+        info: ISkeletonInfo,
+        type: IInspectedConstraint["type"],
+        constraints: any[]
+    ) {
+        if (!constraints) {
+            return;
+        }
+        for (let i = 0; i < constraints.length; i++) {
+            const constraint = constraints[i];
+
+            info.constraints.push({
+                type,
+                name: constraint.name,
+                bones: constraint.bones
+                    ? names(constraint.bones)
+                    : [constraint.bone.name],
+                target: constraint.target ? constraint.target.name : null,
+            });
+        }
+    }
+
+    /**
+     * Human readable report, one section per kind of objects
+     */
+    toText(info: ISkeletonInfo): string {
+        const lines: string[] = [];
+        const section = (title: string, items: string[]) => {
+            lines.push("");
+            lines.push(`${title} (${items.length}):`);
+            for (let i = 0; i < items.length; i++) {
+                lines.push(`  ${items[i]}`);
+            }
+        };
+
+        lines.push(
+            `Spine ${info.version}` +
+                (info.runtime === SPINE_VERSION.UNKNOWN
+                    ? ", no runtime can read it"
+                    : `, runtime ${(info.runtime / 10).toFixed(1)}`)
+        );
+        lines.push(`Size: ${info.width}x${info.height}`);
+
+        section(
+            "Bones",
+            info.bones.map((bone) =>
+                bone.parent ? `${bone.name} <- ${bone.parent}` : bone.name
+            )
+        );
+        section(
+            "Slots",
+            info.slots.map(
+                (slot) =>
+                    `${slot.name} (bone: ${slot.bone}, attachment: ${slot.attachment})`
+            )
+        );
+        section(
+            "Skins",
+            info.skins.map(
+                (skin) => `${skin.name} (${skin.attachments} attachments)`
+            )
+        );
+        section(
+            "Animations",
+            info.animations.map((animation) => {
+                const events = animation.events.map(
+                    (event) => `${event.name}@${event.time}`
+                );
+
+                return (
+                    `${animation.name} ${animation.duration}s` +
+                    (events.length ? ` events: ${events.join(", ")}` : "")
+                );
+            })
+        );
+        section("Events", info.events);
+        section(
+            "Constraints",
+            info.constraints.map(
+                (constraint) =>
+                    `${constraint.type} ${
+                        constraint.name
+                    }: ${constraint.bones.join(", ")}` +
+                    (constraint.target ? ` -> ${constraint.target}` : "")
+            )
+        );
+
+        return lines.join("\n");
+    }
+}
@@ -2,6 +2,8 @@ import {IAnimationState, IAnimationStateData, ISkeleton, ISkeletonData, SpineBas
 import * as spine38 from "@pixi-spine/runtime-3.8";
 import * as spine37 from "@pixi-spine/runtime-3.7";
 import * as spine40 from "@pixi-spine/runtime-4.0";
+import * as spine41 from "@pixi-spine/runtime-4.1";
+import * as spine42 from "@pixi-spine/runtime-4.2";
 import {detectSpineVersion, SPINE_VERSION} from "./versions";
 
 /**
@@ -25,6 +27,12 @@ export class Spine extends SpineBase<ISkeleton,
         if (ver === SPINE_VERSION.VER40) {
             spine = spine40;
         }
+        if (ver === SPINE_VERSION.VER41) {
+            spine = spine41;
+        }
+        if (ver === SPINE_VERSION.VER42) {
+            spine = spine42;
+        }
         if (!spine) {
             let error = `Cant detect version of spine model ${spineData.version}`;
             console.error(error);
@@ -0,0 +1,78 @@
+import {
+    IAnimationState,
+    IAnimationStateData,
+    IRegionAttachment,
+    ISkeleton,
+    ISkeletonData,
+    ISlot,
+    SpineBatchedBase,
+} from "@pixi-spine/base";
+import { SpineUnsupportedVersionError } from "@pixi-spine/loader-base";
+import * as spine38 from "@pixi-spine/runtime-3.8";
+import * as spine37 from "@pixi-spine/runtime-3.7";
+import * as spine40 from "@pixi-spine/runtime-4.0";
+import * as spine41 from "@pixi-spine/runtime-4.1";
+import * as spine42 from "@pixi-spine/runtime-4.2";
+import { detectSpineVersion, SPINE_VERSION } from "./versions";
+
+/**
+ * Batched renderer mode of {@link Spine}, for skeletons of any supported version
+ * @public
+ */
+export class SpineBatched extends SpineBatchedBase<
+    ISkeleton,
+    ISkeletonData,
+    IAnimationState,
+    IAnimationStateData
+> {
+    /**
+     * Region attachments of 4.1 and later compute vertices from slot, older ones from bone
+     */
+    private regionFromSlot: boolean;
+
+    createSkeleton(spineData: ISkeletonData) {
+        const ver = detectSpineVersion(spineData.version);
+        let spine: any = null;
+
+        if (ver === SPINE_VERSION.VER37) {
+            spine = spine37;
+        }
+        if (ver === SPINE_VERSION.VER38) {
+            spine = spine38;
+        }
+        if (ver === SPINE_VERSION.VER40) {
+            spine = spine40;
+        }
+        if (ver === SPINE_VERSION.VER41) {
+            spine = spine41;
+        }
+        if (ver === SPINE_VERSION.VER42) {
+            spine = spine42;
+        }
+        if (!spine) {
+            throw new SpineUnsupportedVersionError(null, spineData.version);
+        }
+        this.regionFromSlot = ver >= SPINE_VERSION.VER41;
+        this.skeleton = new spine.Skeleton(spineData);
+        this.skeleton.updateWorldTransform();
+        this.stateData = new spine.AnimationStateData(spineData);
+        this.state = new spine.AnimationState(this.stateData);
+    }
+
+    computeRegionVertices(
+        slot: ISlot,
+        attachment: IRegionAttachment,
+        vertices: Float32Array,
+        offset: number
+    ) {
+        const region = attachment as any;
+
+        if (this.regionFromSlot) {
+            region.updateRegion();
+            region.computeWorldVertices(slot, vertices, offset, 2);
+        } else {
+            region.updateOffset();
+            region.computeWorldVertices(slot.bone, vertices, offset, 2);
+        }
+    }
+}
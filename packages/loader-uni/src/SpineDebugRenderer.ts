@@ -0,0 +1,51 @@
+import {
+    IRegionAttachment,
+    ISkeleton,
+    ISkeletonBounds,
+    ISlot,
+    SpineDebugRendererBase,
+} from "@pixi-spine/base";
+import { getRuntimeClasses } from "./parsers";
+import { detectSpineVersion, SPINE_VERSION } from "./versions";
+
+import * as PIXI from "pixi.js-legacy";
+
+/**
+ * Debug overlay of {@link Spine} and {@link SpineBatched}, for skeletons of any supported version
+ * @public
+ */
+export class SpineDebugRenderer extends SpineDebugRendererBase {
+    private version: string;
+    private regionFromSlot: boolean;
+
+    constructor(spine: PIXI.Container & { skeleton: ISkeleton }) {
+        super(spine);
+        this.version = spine.skeleton.data.version;
+        this.regionFromSlot =
+            detectSpineVersion(this.version) >= SPINE_VERSION.VER41;
+    }
+
+    createSkeletonBounds(): ISkeletonBounds {
+        const runtime: any = getRuntimeClasses(this.version);
+
+        return new runtime.SkeletonBounds();
+    }
+
+    computeRegionVertices(
+        slot: ISlot,
+        attachment: IRegionAttachment,
+        vertices: Float32Array,
+        offset: number
+    ) {
+        const region = attachment as any;
+
+        // region attachments of 4.1 and later compute vertices from slot, older ones from bone
+        if (this.regionFromSlot) {
+            region.updateRegion();
+            region.computeWorldVertices(slot, vertices, offset, 2);
+        } else {
+            region.updateOffset();
+            region.computeWorldVertices(slot.bone, vertices, offset, 2);
+        }
+    }
+}
@@ -0,0 +1,5 @@
+export * from './parsers';
+export * from './SkeletonDataUpgrader';
+export * from './SkeletonInspector';
+export * from './versions';
+export * from './worker';
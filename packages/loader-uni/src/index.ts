@@ -1,4 +1,6 @@
 /// <reference path="../global.d.ts" />
+export * from './core';
 export * from './SpineLoader';
 export * from './Spine';
-export * from './versions';
+export * from './SpineBatched';
+export * from './SpineDebugRenderer';
@@ -0,0 +1,188 @@
+import {
+    SpineUnsupportedVersionError,
+    toSpineLoadError,
+} from "@pixi-spine/loader-base";
+import * as base from "@pixi-spine/base";
+import { BinaryInput } from "@pixi-spine/base";
+import type {
+    ISkeletonData,
+    ISkeletonParser,
+    SkeletonValidator,
+    StringMap,
+    TextureAtlas,
+    TextureAtlasData,
+} from "@pixi-spine/base";
+import * as spine38 from "@pixi-spine/runtime-3.8";
+import * as spine37 from "@pixi-spine/runtime-3.7";
+import * as spine40 from "@pixi-spine/runtime-4.0";
+import * as spine41 from "@pixi-spine/runtime-4.1";
+import * as spine42 from "@pixi-spine/runtime-4.2";
+import { detectSpineVersion, SPINE_VERSION } from "./versions";
+import { SkeletonDataUpgrader } from "./SkeletonDataUpgrader";
+
+/**
+ * Spine 3.x binaries start with hash string, 4.x have 64-bit hash instead.
+ * Returns null if header doesn't match the format.
+ */
+function readBinaryVersion(dataToParse: Uint8Array, longHash: boolean) {
+    try {
+        const input = new BinaryInput(dataToParse);
+
+        if (longHash) {
+            input.readInt32();
+            input.readInt32();
+        } else {
+            input.readString();
+        }
+        return input.readString();
+    } catch (e) {
+        return null;
+    }
+}
+
+function readWithParser(
+    parser: any,
+    options: ISkeletonParser,
+    version: string,
+    dataToParse: any
+): ISkeletonData {
+    if (!parser) {
+        throw new SpineUnsupportedVersionError(null, version);
+    }
+
+    parser.scale = options.scale;
+    try {
+        const skeletonData = parser.readSkeletonData(dataToParse);
+
+        return options.upgradeData
+            ? new SkeletonDataUpgrader().upgrade(skeletonData)
+            : skeletonData;
+    } catch (e) {
+        throw toSpineLoadError(e, null, version);
+    }
+}
+
+/**
+ * Reads binary skeleton of any supported version, detected by its header
+ * @public
+ */
+export class UniBinaryParser implements ISkeletonParser {
+    scale = 1;
+    upgradeData = false;
+    validator: SkeletonValidator = null;
+
+    readSkeletonData(
+        atlas: TextureAtlas | TextureAtlasData,
+        dataToParse: Uint8Array
+    ): ISkeletonData {
+        let parser: any = null;
+        let version = readBinaryVersion(dataToParse, true);
+        let ver = version ? detectSpineVersion(version) : SPINE_VERSION.UNKNOWN;
+
+        if (ver === SPINE_VERSION.VER40) {
+            parser = new spine40.SkeletonBinary(
+                new spine40.AtlasAttachmentLoader(atlas, this.validator)
+            );
+        } else if (ver === SPINE_VERSION.VER41) {
+            parser = new spine41.SkeletonBinary(
+                new spine41.AtlasAttachmentLoader(atlas, this.validator)
+            );
+        } else if (ver === SPINE_VERSION.VER42) {
+            parser = new spine42.SkeletonBinary(
+                new spine42.AtlasAttachmentLoader(atlas, this.validator)
+            );
+        } else {
+            version = readBinaryVersion(dataToParse, false);
+            ver = version ? detectSpineVersion(version) : SPINE_VERSION.UNKNOWN;
+
+            if (ver === SPINE_VERSION.VER38) {
+                parser = new spine38.SkeletonBinary(
+                    new spine38.AtlasAttachmentLoader(atlas, this.validator)
+                );
+            }
+            if (ver === SPINE_VERSION.VER37) {
+                parser = new spine37.SkeletonBinary(
+                    new spine37.AtlasAttachmentLoader(atlas, this.validator)
+                );
+            }
+        }
+        return readWithParser(parser, this, version, dataToParse);
+    }
+}
+
+/**
+ * Reads json skeleton of any supported version, detected by `skeleton.spine` field
+ * @public
+ */
+export class UniJsonParser implements ISkeletonParser {
+    scale = 1;
+    upgradeData = false;
+    validator: SkeletonValidator = null;
+
+    readSkeletonData(
+        atlas: TextureAtlas | TextureAtlasData,
+        dataToParse: any
+    ): ISkeletonData {
+        const version = dataToParse.skeleton
+            ? dataToParse.skeleton.spine
+            : null;
+        const ver = version
+            ? detectSpineVersion(version)
+            : SPINE_VERSION.UNKNOWN;
+        let parser: any = null;
+
+        if (ver === SPINE_VERSION.VER37) {
+            parser = new spine37.SkeletonJson(
+                new spine37.AtlasAttachmentLoader(atlas, this.validator)
+            );
+        }
+        if (ver === SPINE_VERSION.VER38) {
+            parser = new spine38.SkeletonJson(
+                new spine38.AtlasAttachmentLoader(atlas, this.validator)
+            );
+        }
+        if (ver === SPINE_VERSION.VER40) {
+            parser = new spine40.SkeletonJson(
+                new spine40.AtlasAttachmentLoader(atlas, this.validator)
+            );
+        }
+        if (ver === SPINE_VERSION.VER41) {
+            parser = new spine41.SkeletonJson(
+                new spine41.AtlasAttachmentLoader(atlas, this.validator)
+            );
+        }
+        if (ver === SPINE_VERSION.VER42) {
+            parser = new spine42.SkeletonJson(
+                new spine42.AtlasAttachmentLoader(atlas, this.validator)
+            );
+        }
+        return readWithParser(parser, this, version, dataToParse);
+    }
+}
+
+/**
+ * Classes of base package and of the runtime that reads skeletons of that version, null if there's none.
+ * Skeleton data packed by {@link SkeletonDataPacker} is restored with them.
+ * @public
+ */
+export function getRuntimeClasses(version: string): StringMap<Function> {
+    const ver = version ? detectSpineVersion(version) : SPINE_VERSION.UNKNOWN;
+    let runtime: any = null;
+
+    if (ver === SPINE_VERSION.VER37) {
+        runtime = spine37;
+    }
+    if (ver === SPINE_VERSION.VER38) {
+        runtime = spine38;
+    }
+    if (ver === SPINE_VERSION.VER40) {
+        runtime = spine40;
+    }
+    if (ver === SPINE_VERSION.VER41) {
+        runtime = spine41;
+    }
+    if (ver === SPINE_VERSION.VER42) {
+        runtime = spine42;
+    }
+    return runtime ? { ...base, ...runtime } : null;
+}
@@ -0,0 +1,42 @@
+import {
+    createSpineWorkerPort,
+    ISpineParseRequest,
+    serveSpineWorker,
+} from "@pixi-spine/loader-base";
+import { SkeletonDataPacker } from "@pixi-spine/base";
+import { getRuntimeClasses, UniBinaryParser, UniJsonParser } from "./parsers";
+import { RegionlessAtlas } from "./SkeletonInspector";
+
+/**
+ * Parses skeleton of any supported version and packs it for `postMessage`, regions are found later on the main thread.
+ * Worker has no atlas, all attachments get the same empty region, it isn't sent back.
+ * @public
+ */
+export function parseForTransfer(request: ISpineParseRequest) {
+    const atlas = new RegionlessAtlas();
+    const parser = request.binary ? new UniBinaryParser() : new UniJsonParser();
+    let dataToParse = request.data;
+
+    if (request.binary) {
+        dataToParse = new Uint8Array(dataToParse);
+    } else if (typeof dataToParse === "string") {
+        dataToParse = JSON.parse(dataToParse);
+    }
+    parser.scale = request.scale;
+    parser.upgradeData = request.upgradeData;
+
+    const skeletonData = parser.readSkeletonData(atlas, dataToParse);
+    const packer = new SkeletonDataPacker(
+        getRuntimeClasses(skeletonData.version)
+    );
+
+    return packer.pack(skeletonData, [atlas.region]);
+}
+
+/**
+ * Call it in worker script, `target` is worker `self` or `parentPort` of node `worker_threads`
+ * @public
+ */
+export function serveSpineParser(target: any) {
+    serveSpineWorker(createSpineWorkerPort(target), parseForTransfer);
+}
@@ -0,0 +1,126 @@
+const { expect } = require('chai');
+const path = require('path');
+const { Worker } = require('worker_threads');
+const { SkeletonDataPacker } = require('@pixi-spine/base/lib/core');
+const {
+    createSpineWorkerPort,
+    SpineLoadError,
+    SpineUnsupportedVersionError,
+    SpineWorkerClient,
+} = require('@pixi-spine/loader-base/lib/core');
+const { getRuntimeClasses, parseForTransfer } = require('../lib/core');
+
+const skeletonJson = {
+    skeleton: { spine: '4.0.64', width: 100, height: 200 },
+    bones: [
+        { name: 'root' },
+        { name: 'arm', parent: 'root', length: 50, rotation: 30 },
+    ],
+    slots: [
+        { name: 'body', bone: 'root', attachment: 'body' },
+        { name: 'hand', bone: 'arm', attachment: 'hand' },
+    ],
+    skins: [{
+        name: 'default',
+        attachments: {
+            body: { body: { width: 100, height: 200 } },
+            hand: {
+                hand: {
+                    type: 'mesh',
+                    uvs: [0, 0, 1, 0, 1, 1, 0, 1],
+                    triangles: [0, 1, 2, 2, 3, 0],
+                    vertices: [-10, -10, 10, -10, 10, 10, -10, 10],
+                    hull: 4,
+                },
+            },
+        },
+    }],
+    animations: {
+        wave: {
+            bones: {
+                arm: {
+                    rotate: [
+                        { time: 0, value: 0, curve: [0.25, 0, 0.75, 45] },
+                        { time: 1, value: 45 },
+                    ],
+                },
+            },
+        },
+    },
+};
+
+function request(data) {
+    return { id: 1, data, binary: false, scale: 1, upgradeData: false };
+}
+
+function unpack(packed) {
+    return new SkeletonDataPacker(getRuntimeClasses(packed.version)).unpack(packed);
+}
+
+describe('SpineWorkerClient', () => {
+    let worker;
+
+    afterEach(() => worker.terminate());
+
+    it('should parse skeleton in worker_threads and restore its classes', () => {
+        worker = new Worker(path.join(__dirname, 'worker.js'));
+
+        const client = new SpineWorkerClient(createSpineWorkerPort(worker));
+        const expected = unpack(parseForTransfer(request(JSON.stringify(skeletonJson))).packed);
+
+        return client.parse(JSON.stringify(skeletonJson), false).then((packed) => {
+            const skeletonData = unpack(packed);
+            const classes = getRuntimeClasses(packed.version);
+
+            expect(packed.version).to.equal('4.0.64');
+            expect(skeletonData).to.be.instanceOf(classes.SkeletonData);
+            expect(skeletonData.bones.map((bone) => bone.name)).to.deep.equal(['root', 'arm']);
+            expect(skeletonData.bones[1].parent).to.equal(skeletonData.bones[0]);
+            expect(skeletonData.slots[1].boneData).to.equal(skeletonData.bones[1]);
+
+            const hand = skeletonData.defaultSkin.getAttachment(1, 'hand');
+
+            expect(hand).to.be.instanceOf(classes.MeshAttachment);
+            expect(hand.vertices).to.be.instanceOf(Float32Array);
+            expect(Array.from(hand.vertices)).to.deep.equal(
+                Array.from(expected.defaultSkin.getAttachment(1, 'hand').vertices));
+
+            const timeline = skeletonData.findAnimation('wave').timelines[0];
+            const expectedTimeline = expected.findAnimation('wave').timelines[0];
+
+            expect(timeline).to.be.instanceOf(classes.RotateTimeline);
+            expect(Array.from(timeline.frames)).to.deep.equal(Array.from(expectedTimeline.frames));
+            expect(Array.from(timeline.curves)).to.deep.equal(Array.from(expectedTimeline.curves));
+        });
+    });
+
+    it('should reject with SpineUnsupportedVersionError for unknown versions', () => {
+        worker = new Worker(path.join(__dirname, 'worker.js'));
+
+        const client = new SpineWorkerClient(createSpineWorkerPort(worker));
+        const json = Object.assign({}, skeletonJson, { skeleton: { spine: '5.0.01' } });
+
+        return client.parse(json, false).then(
+            () => expect.fail('parse should fail'),
+            (error) => expect(error).to.be.instanceOf(SpineUnsupportedVersionError)
+        );
+    });
+
+    it('should reject pending requests when worker fails', () => {
+        worker = new Worker('throw new Error("worker is broken")', { eval: true });
+
+        const client = new SpineWorkerClient(createSpineWorkerPort(worker));
+        const requests = [
+            client.parse(JSON.stringify(skeletonJson), false),
+            client.parse(JSON.stringify(skeletonJson), false),
+        ];
+
+        return Promise.all(requests.map((promise) => promise.then(
+            () => expect.fail('parse should fail'),
+            (error) => {
+                expect(error).to.be.instanceOf(SpineLoadError);
+                expect(error.message).to.contain('worker is broken');
+            }
+        )));
+    });
+});
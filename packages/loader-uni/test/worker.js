@@ -0,0 +1,4 @@
+const { parentPort } = require('worker_threads');
+const { serveSpineParser } = require('../lib/core');
+
+serveSpineParser(parentPort);
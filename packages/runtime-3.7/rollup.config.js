@@ -1,7 +1,19 @@
 const {main} = require('@pixi-spine/rollup-config/main');
 
-module.exports = main({
-    globals: {
-        '@pixi-spine/base': 'PIXI.spine',
-    },
-});
+module.exports = [
+    ...main({
+        globals: {
+            '@pixi-spine/base': 'PIXI.spine',
+        },
+    }),
+    // core without PIXI for node, it takes base from its core entry too
+    ...main({
+        input: 'src/core.ts',
+        main: 'lib/core.js',
+        module: 'lib/core.es.js',
+        bundle: false,
+        paths: {
+            '@pixi-spine/base': '@pixi-spine/base/lib/core',
+        },
+    }),
+];
@@ -0,0 +1,21 @@
+import {SpineDebugRendererBase} from '@pixi-spine/base';
+import {SkeletonBounds} from "./core/SkeletonBounds";
+import type {RegionAttachment} from "./core/attachments";
+import type {Slot} from "./core/Slot";
+
+/**
+ * Debug overlay of {@link Spine} and {@link SpineBatched}, see {@link SpineDebugRendererBase}
+ *
+ * @public
+ */
+export class SpineDebugRenderer extends SpineDebugRendererBase {
+    createSkeletonBounds() {
+        return new SkeletonBounds();
+    }
+
+    computeRegionVertices(slot: Slot, attachment: RegionAttachment, vertices: Float32Array, offset: number) {
+        // parsers don't compute offsets, region can be changed by user
+        attachment.updateOffset();
+        attachment.computeWorldVertices(slot.bone, vertices, offset, 2);
+    }
+}
@@ -141,6 +141,37 @@ export abstract class CurveTimeline implements Timeline {
         }
     }
 
+    /** Returns the handles that were passed to {@link #setCurve()}, computed back from the stored curve segments.
+     * @param frameIndex Its curve type must be Bezier.
+     * @returns cx1, cy1, cx2, cy2 */
+    getCurve (frameIndex: number): number[] {
+        let curves = this.curves;
+        let i = frameIndex * CurveTimeline.BEZIER_SIZE + 1;
+        let result = new Array<number>(4);
+        for (let ii = 0; ii < 2; ii++) {
+            // Least squares fit of the handles to all points of setCurve, so float rounding of the points isn't amplified.
+            let bb = 0, bc = 0, cc = 0, br = 0, cr = 0;
+            for (let point = 1; point < 10; point++) {
+                let t = point / 10, u = 1 - t;
+                let b = 3 * u * u * t, c = 3 * u * t * t;
+                let r = curves[i + (point - 1) * 2 + ii] - t * t * t;
+                bb += b * b;
+                bc += b * c;
+                cc += c * c;
+                br += b * r;
+                cr += c * r;
+            }
+            let det = bb * cc - bc * bc;
+            let c1 = (br * cc - cr * bc) / det, c2 = (cr * bb - br * bc) / det;
+            // Keep 6 significant digits of the handles, the rest is noise of float points.
+            let size = Math.max(1, Math.abs(c1), Math.abs(c2));
+            let step = Math.pow(10, Math.floor(Math.log(size) / Math.LN10) - 5);
+            result[ii] = Math.round(c1 / step) * step;
+            result[ii + 2] = Math.round(c2 / step) * step;
+        }
+        return result;
+    }
+
     getCurvePercent (frameIndex: number, percent: number) {
         percent = MathUtils.clamp(percent, 0, 1);
         let curves = this.curves;
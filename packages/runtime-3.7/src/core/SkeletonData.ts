@@ -30,6 +30,7 @@ export class SkeletonData implements ISkeletonData<BoneData, SlotData, Skin, Ani
     // Nonessential
     fps = 0;
     imagesPath: string;
+    audioPath: string;
 
     findBone(boneName: string) {
         if (boneName == null) throw new Error("boneName cannot be null.");
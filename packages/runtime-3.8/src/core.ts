@@ -0,0 +1,29 @@
+export * from './core/attachments';
+export * from './core/vertexeffects/JitterEffect';
+export * from './core/vertexeffects/SwirlEffect';
+export * from './core/Animation';
+export * from './core/AnimationState';
+export * from './core/AnimationStateData';
+export * from './core/AtlasAttachmentLoader';
+export * from './core/Bone';
+export * from './core/BoneData';
+export * from './core/Constraint';
+export * from './core/Event';
+export * from './core/EventData';
+export * from './core/IkConstraint';
+export * from './core/IkConstraintData';
+export * from './core/PathConstraint';
+export * from './core/PathConstraintData';
+export * from './core/Skeleton';
+export * from './core/SkeletonBinary';
+export * from './core/SkeletonBounds';
+export * from './core/SkeletonData';
+export * from './core/SkeletonJson';
+export * from './core/SkeletonJsonWriter';
+export * from './core/Skin';
+export * from './core/Slot';
+export * from './core/SlotData';
+export * from './core/TransformConstraint';
+export * from './core/TransformConstraintData';
+export * from './core/Updatable';
+export * from './core/VertexEffect';
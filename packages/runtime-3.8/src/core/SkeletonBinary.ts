@@ -36,6 +36,7 @@ import {
 import {
     AttachmentType,
     BinaryInput,
+    BlendModes,
     Color,
     PositionMode,
     RotateMode,
@@ -72,10 +73,10 @@ export class SkeletonBinary {
         RotateMode.ChainScale,
     ];
     static BlendModeValues = [
-        PIXI.BLEND_MODES.NORMAL,
-        PIXI.BLEND_MODES.ADD,
-        PIXI.BLEND_MODES.MULTIPLY,
-        PIXI.BLEND_MODES.SCREEN,
+        BlendModes.NORMAL,
+        BlendModes.ADD,
+        BlendModes.MULTIPLY,
+        BlendModes.SCREEN,
     ];
 
     static BONE_ROTATE = 0;
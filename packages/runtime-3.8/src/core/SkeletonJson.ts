@@ -35,6 +35,7 @@ import {
 } from "./Animation";
 import {
     ArrayLike,
+    BlendModes,
     Color,
     PositionMode,
     RotateMode,
@@ -1185,10 +1186,10 @@ export class SkeletonJson {
 
     static blendModeFromString(str: string) {
         str = str.toLowerCase();
-        if (str == "normal") return PIXI.BLEND_MODES.NORMAL;
-        if (str == "additive") return PIXI.BLEND_MODES.ADD;
-        if (str == "multiply") return PIXI.BLEND_MODES.MULTIPLY;
-        if (str == "screen") return PIXI.BLEND_MODES.SCREEN;
+        if (str == "normal") return BlendModes.NORMAL;
+        if (str == "additive") return BlendModes.ADD;
+        if (str == "multiply") return BlendModes.MULTIPLY;
+        if (str == "screen") return BlendModes.SCREEN;
         throw new Error(`Unknown blend mode: ${str}`);
     }
 
@@ -0,0 +1,201 @@
+const { expect } = require('chai');
+const { TextureAtlasData } = require('@pixi-spine/base/lib/core');
+const {
+    AtlasAttachmentLoader,
+    SkeletonJson,
+    SkeletonJsonWriter,
+} = require('../lib/core');
+
+const atlasText = `
+sample.png
+size: 64,64
+filter: Linear,Linear
+body
+bounds: 0,0,32,32
+hand
+bounds: 32,0,16,16
+`;
+
+const skeletonJson = {
+    skeleton: { spine: '3.8.99', width: 100, height: 200 },
+    bones: [
+        { name: 'root' },
+        { name: 'arm', parent: 'root', length: 50, rotation: 30, x: 10, y: 20 },
+        { name: 'target', parent: 'root', x: 60, y: 40 },
+    ],
+    slots: [
+        { name: 'body', bone: 'root', attachment: 'body' },
+        { name: 'hand', bone: 'arm', color: 'ff8080ff', dark: '202020', attachment: 'hand', blend: 'additive' },
+    ],
+    ik: [
+        { name: 'reach', bones: ['arm'], target: 'target', mix: 0.5 },
+    ],
+    skins: [{
+        name: 'default',
+        attachments: {
+            body: { body: { width: 32, height: 32, x: 1, y: 2, rotation: 10 } },
+            hand: {
+                hand: {
+                    type: 'mesh',
+                    uvs: [0, 0, 1, 0, 1, 1, 0, 1],
+                    triangles: [0, 1, 2, 2, 3, 0],
+                    vertices: [-10, -10, 10, -10, 10, 10, -10, 10],
+                    hull: 4,
+                    width: 16,
+                    height: 16,
+                },
+                glove: { type: 'linkedmesh', path: 'hand', parent: 'hand', deform: false, width: 16, height: 16 },
+            },
+        },
+    }],
+    events: {
+        step: { int: 1, float: 0.5, string: 'left' },
+        sound: { audio: 'step.ogg', volume: 0.75, balance: -0.25 },
+    },
+    animations: {
+        walk: {
+            bones: {
+                arm: {
+                    rotate: [
+                        { angle: 0, curve: 0.25, c3: 0.75 },
+                        { time: 0.5, angle: 45, curve: 'stepped' },
+                        { time: 1, angle: -15 },
+                    ],
+                    translate: [
+                        { x: 0, y: 0, curve: 0.1, c2: 0.2, c3: 0.4, c4: 0.9 },
+                        { time: 1, x: 10, y: -5 },
+                    ],
+                },
+            },
+            slots: {
+                hand: {
+                    twoColor: [
+                        { light: 'ffffffff', dark: '000000', curve: 0.2, c2: 1, c3: 0.8 },
+                        { time: 1, light: '80000080', dark: '404040' },
+                    ],
+                    attachment: [
+                        { time: 0.5, name: 'glove' },
+                        { time: 1, name: null },
+                    ],
+                },
+            },
+            ik: {
+                reach: [
+                    { mix: 1, softness: 5, curve: 0.3, c2: 1, c3: 0.6, c4: 0 },
+                    { time: 1, mix: 0, softness: 10, bendPositive: false },
+                ],
+            },
+            deform: {
+                default: {
+                    hand: {
+                        hand: [
+                            { curve: 0.25, c3: 0.75 },
+                            { time: 0.5, offset: 2, vertices: [3, -3, 4.5, 1] },
+                            { time: 1 },
+                        ],
+                    },
+                },
+            },
+            drawOrder: [
+                { time: 0.25, offsets: [{ slot: 'body', offset: 1 }] },
+                { time: 0.75 },
+            ],
+            events: [
+                { time: 0.25, name: 'step' },
+                { time: 0.75, name: 'step', int: 2, float: 1.5, string: 'right' },
+                { time: 1, name: 'sound', volume: 0.5 },
+            ],
+        },
+    },
+};
+
+function readJson(json, scale = 1) {
+    const reader = new SkeletonJson(new AtlasAttachmentLoader(new TextureAtlasData(atlasText)));
+
+    reader.scale = scale;
+
+    return reader.readSkeletonData(json);
+}
+
+function expectCloseArrays(actual, expected) {
+    expect(actual.length).to.equal(expected.length);
+    for (let i = 0; i < expected.length; i++) {
+        expect(actual[i]).to.be.closeTo(expected[i], 1e-3);
+    }
+}
+
+function expectSameTimelines(actual, expected) {
+    expect(actual.timelines.length).to.equal(expected.timelines.length);
+    expected.timelines.forEach((timeline, i) => {
+        const other = actual.timelines[i];
+
+        expect(other.constructor).to.equal(timeline.constructor);
+        if (timeline.attachment) {
+            // property ids of deform timelines have ids of attachments, they are different in every read
+            expect(other.slotIndex).to.equal(timeline.slotIndex);
+            expect(other.attachment.name).to.equal(timeline.attachment.name);
+        } else {
+            expect(other.getPropertyId()).to.equal(timeline.getPropertyId());
+        }
+        expectCloseArrays(other.frames, timeline.frames);
+        if (timeline.curves) {
+            expectCloseArrays(other.curves, timeline.curves);
+        }
+    });
+}
+
+describe('SkeletonJsonWriter', () => {
+    it('should write skeleton data that reads back the same', () => {
+        const data = readJson(skeletonJson);
+        const written = new SkeletonJsonWriter().writeSkeletonData(data);
+        const restored = readJson(JSON.parse(JSON.stringify(written)));
+
+        expect(restored.bones.map((bone) => [bone.name, bone.parent && bone.parent.name, bone.x, bone.y, bone.rotation]))
+            .to.deep.equal(data.bones.map((bone) => [bone.name, bone.parent && bone.parent.name, bone.x, bone.y, bone.rotation]));
+        expect(restored.slots.map((slot) => [slot.name, slot.boneData.name, slot.attachmentName, slot.blendMode]))
+            .to.deep.equal(data.slots.map((slot) => [slot.name, slot.boneData.name, slot.attachmentName, slot.blendMode]));
+        expect(restored.slots[1].color).to.deep.equal(data.slots[1].color);
+        expect(restored.slots[1].darkColor).to.deep.equal(data.slots[1].darkColor);
+        expect(restored.ikConstraints[0].mix).to.equal(0.5);
+        expect(restored.events.map((event) => [event.name, event.intValue, event.floatValue, event.stringValue, event.audioPath]))
+            .to.deep.equal(data.events.map((event) => [event.name, event.intValue, event.floatValue, event.stringValue, event.audioPath]));
+
+        const glove = restored.defaultSkin.getAttachment(1, 'glove');
+
+        expect(glove.getParentMesh()).to.equal(restored.defaultSkin.getAttachment(1, 'hand'));
+        expect(glove.deformAttachment).to.equal(glove);
+
+        const walk = restored.findAnimation('walk');
+
+        expect(walk.duration).to.equal(1);
+        expectSameTimelines(walk, data.findAnimation('walk'));
+    });
+
+    it('should keep curves, deform, draw order and events when written again', () => {
+        const written = new SkeletonJsonWriter().writeSkeletonData(readJson(skeletonJson));
+        const rewritten = new SkeletonJsonWriter().writeSkeletonData(readJson(JSON.parse(JSON.stringify(written))));
+        const walk = written.animations.walk;
+
+        expect(rewritten).to.deep.equal(written);
+        expect(walk.bones.arm.rotate[0]).to.deep.include({ curve: 0.25, c3: 0.75 });
+        expect(walk.bones.arm.rotate[1].curve).to.equal('stepped');
+        expect(walk.bones.arm.translate[0]).to.deep.include({ curve: 0.1, c2: 0.2, c3: 0.4, c4: 0.9 });
+        expect(walk.deform.default.hand.hand[0]).to.deep.include({ curve: 0.25, c3: 0.75 });
+        expect(walk.deform.default.hand.hand[1].offset).to.equal(2);
+        expect(walk.deform.default.hand.hand[1].vertices).to.deep.equal([3, -3, 4.5, 1]);
+        expect(walk.drawOrder.map((key) => key.offsets || null)).to.deep.equal([[{ slot: 'body', offset: 1 }, { slot: 'hand', offset: -1 }], null]);
+        expect(walk.events.map((key) => [key.time, key.name])).to.deep.equal([[0.25, 'step'], [0.75, 'step'], [1, 'sound']]);
+        expect(walk.events[1].string).to.equal('right');
+    });
+
+    it('should divide positions by scale', () => {
+        const writer = new SkeletonJsonWriter();
+
+        writer.scale = 2;
+
+        const written = writer.writeSkeletonData(readJson(skeletonJson, 2));
+
+        expect(written.bones[1].x).to.equal(10);
+        expect(written.animations.walk.bones.arm.translate[1]).to.deep.include({ x: 10, y: -5 });
+    });
+});
@@ -159,6 +159,13 @@ export abstract class CurveTimeline extends Timeline {
         this.curves[frameCount - 1] = 1/*STEPPED*/;
     }
 
+    /** Returns the interpolation type for the specified key frame.
+     * @returns Linear is 0, stepped is 1, Bezier is 2. */
+    getCurveType (frame: number): number {
+        let type = this.curves[frame];
+        return type >= 2/*BEZIER*/ ? 2/*BEZIER*/ : type;
+    }
+
     /** Sets the specified key frame to linear interpolation. */
     setLinear (frame: number) {
         this.curves[frame] = 0/*LINEAR*/;
@@ -216,6 +223,42 @@ export abstract class CurveTimeline extends Timeline {
         }
     }
 
+    /** Computes the Bezier handles of the specified key frame back from the segments stored by {@link #setBezier()}.
+     * @param frame Between 0 and <code>frameCount - 2</code>, inclusive, its curve type must be Bezier.
+     * @param value The index of the value for this frame that the curve is used for.
+     * @param value1 The value for the first key.
+     * @param value2 The value for the second key.
+     * @returns The time and value of the first handle followed by the time and value of the second handle. */
+    getBezier (frame: number, value: number, value1: number, value2: number): number[] {
+        let curves = this.curves;
+        let i = curves[frame] - 2/*BEZIER*/ + value * 18/*BEZIER_SIZE*/;
+        let entries = this.getFrameEntries();
+        let starts = [this.frames[frame * entries], value1], ends = [this.frames[frame * entries + entries], value2];
+        let result = new Array<number>(4);
+        for (let ii = 0; ii < 2; ii++) {
+            // Least squares fit of the handles to all points of setBezier, so float rounding of the points isn't amplified.
+            let bb = 0, bc = 0, cc = 0, br = 0, cr = 0;
+            for (let point = 1; point < 10; point++) {
+                let t = point / 10, u = 1 - t;
+                let b = 3 * u * u * t, c = 3 * u * t * t;
+                let r = curves[i + (point - 1) * 2 + ii] - u * u * u * starts[ii] - t * t * t * ends[ii];
+                bb += b * b;
+                bc += b * c;
+                cc += c * c;
+                br += b * r;
+                cr += c * r;
+            }
+            let det = bb * cc - bc * bc;
+            let c1 = (br * cc - cr * bc) / det, c2 = (cr * bb - br * bc) / det;
+            // Keep 6 significant digits of the key values, the rest is noise of float points.
+            let size = Math.max(Math.abs(starts[ii]), Math.abs(ends[ii]), Math.abs(c1), Math.abs(c2));
+            let step = size > 0 ? Math.pow(10, Math.floor(Math.log(size) / Math.LN10) - 5) : 1;
+            result[ii] = Math.round(c1 / step) * step;
+            result[ii + 2] = Math.round(c2 / step) * step;
+        }
+        return result;
+    }
+
     /** Returns the Bezier interpolated value for the specified time.
      * @param frameIndex The index into {@link #getFrames()} for the values of the frame before <code>time</code>.
      * @param valueOffset The offset from <code>frameIndex</code> to the value this curve is used for.
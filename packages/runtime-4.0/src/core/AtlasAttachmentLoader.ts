@@ -1,24 +1,29 @@
 
 import {AttachmentLoader, RegionAttachment, MeshAttachment, BoundingBoxAttachment,
     PathAttachment, PointAttachment, ClippingAttachment} from './attachments';
-import type {TextureAtlas} from "@pixi-spine/base";
+import {TextureAtlas} from "@pixi-spine/base";
+import type {SkeletonValidator, TextureAtlasData, TextureRegion} from "@pixi-spine/base";
 import type {Skin} from "./Skin";
 
 /**
  * @public
  */
 export class AtlasAttachmentLoader implements AttachmentLoader {
-    atlas: TextureAtlas;
+    atlas: TextureAtlas | TextureAtlasData;
+    /** Missing regions are reported to it and replaced with placeholders instead of throwing. */
+    validator: SkeletonValidator;
 
-    constructor(atlas: TextureAtlas) {
+    /** TextureAtlasData reads skeletons without textures and PIXI, it has no placeholders for missing regions. */
+    constructor(atlas: TextureAtlas | TextureAtlasData, validator: SkeletonValidator = null) {
         this.atlas = atlas;
+        this.validator = validator;
     }
 
     /** @return May be null to not load an attachment. */
     // @ts-ignore
     newRegionAttachment(skin: Skin, name: string, path: string): RegionAttachment {
-        let region = this.atlas.findRegion(path);
-        if (region == null) throw new Error("Region not found in atlas: " + path + " (region attachment: " + name + ")");
+        let region: TextureRegion = this.atlas.findRegion(path);
+        if (region == null) region = this.missingRegion(name, path, "region attachment");
         let attachment = new RegionAttachment(name);
         attachment.region = region;
         return attachment;
@@ -27,8 +32,8 @@ export class AtlasAttachmentLoader implements AttachmentLoader {
     /** @return May be null to not load an attachment. */
     // @ts-ignore
     newMeshAttachment(skin: Skin, name: string, path: string): MeshAttachment {
-        let region = this.atlas.findRegion(path);
-        if (region == null) throw new Error("Region not found in atlas: " + path + " (mesh attachment: " + name + ")");
+        let region: TextureRegion = this.atlas.findRegion(path);
+        if (region == null) region = this.missingRegion(name, path, "mesh attachment");
         let attachment = new MeshAttachment(name);
         attachment.region = region;
         return attachment;
@@ -55,4 +60,13 @@ export class AtlasAttachmentLoader implements AttachmentLoader {
     newClippingAttachment(skin: Skin, name: string): ClippingAttachment {
         return new ClippingAttachment(name);
     }
+
+    /** Only {@link TextureAtlas} has a placeholder texture, regions missing from TextureAtlasData go to validator or throw. */
+    private missingRegion(name: string, path: string, kind: string): TextureRegion {
+        let atlas = this.atlas;
+        let placeholder = atlas instanceof TextureAtlas ? atlas.placeholder : null;
+        if (this.validator) return this.validator.addMissingRegion(name, path, placeholder);
+        if (atlas instanceof TextureAtlas && placeholder) return atlas.addPlaceholderRegion(path);
+        throw new Error("Region not found in atlas: " + path + " (" + kind + ": " + name + ")");
+    }
 }
@@ -4,6 +4,7 @@ import { Skeleton } from "./Skeleton";
 import {
     IBone,
     MathUtils,
+    Matrix,
     settings,
     TransformMode,
     Vector2,
@@ -18,7 +19,7 @@ import {
  * */
 export class Bone implements Updatable, IBone {
     //be careful! Spine b,c is c,b in pixi matrix
-    matrix = new PIXI.Matrix();
+    matrix = new Matrix();
 
     get worldX(): number {
         return this.matrix.tx;
@@ -47,6 +47,7 @@ import { EventData } from "./EventData";
 import {
     AttachmentType,
     BinaryInput,
+    BlendModes,
     Color,
     PositionMode,
     Utils,
@@ -61,10 +62,10 @@ import {
  * */
 export class SkeletonBinary {
     static BlendModeValues = [
-        PIXI.BLEND_MODES.NORMAL,
-        PIXI.BLEND_MODES.ADD,
-        PIXI.BLEND_MODES.MULTIPLY,
-        PIXI.BLEND_MODES.SCREEN,
+        BlendModes.NORMAL,
+        BlendModes.ADD,
+        BlendModes.MULTIPLY,
+        BlendModes.SCREEN,
     ];
     /** Scales bone positions, image sizes, and translations as they are loaded. This allows different size images to be used at
      * runtime than were used in Spine.
@@ -0,0 +1,975 @@
+import type {
+    Attachment,
+    BoundingBoxAttachment,
+    ClippingAttachment,
+    MeshAttachment,
+    PathAttachment,
+    PointAttachment,
+    RegionAttachment,
+    VertexAttachment,
+} from "./attachments";
+import {
+    AlphaTimeline,
+    Animation,
+    AttachmentTimeline,
+    CurveTimeline,
+    CurveTimeline2,
+    DeformTimeline,
+    DrawOrderTimeline,
+    EventTimeline,
+    IkConstraintTimeline,
+    PathConstraintMixTimeline,
+    PathConstraintPositionTimeline,
+    PathConstraintSpacingTimeline,
+    RGB2Timeline,
+    RGBA2Timeline,
+    RGBATimeline,
+    RGBTimeline,
+    RotateTimeline,
+    ScaleTimeline,
+    ScaleXTimeline,
+    ScaleYTimeline,
+    ShearTimeline,
+    ShearXTimeline,
+    ShearYTimeline,
+    Timeline,
+    TransformConstraintTimeline,
+    TranslateTimeline,
+    TranslateXTimeline,
+    TranslateYTimeline,
+} from "./Animation";
+import type { SkeletonData } from "./SkeletonData";
+import { IkConstraintData } from "./IkConstraintData";
+import { TransformConstraintData } from "./TransformConstraintData";
+import { PathConstraintData, SpacingMode } from "./PathConstraintData";
+import type { Skin } from "./Skin";
+import { SkeletonBinary } from "./SkeletonBinary";
+import {
+    AttachmentType,
+    BinaryOutput,
+    Color,
+    PositionMode,
+} from "@pixi-spine/base";
+
+/** Writes skeleton data in the Spine binary format, the result can be read back by {@link SkeletonBinary}.
+ *
+ * See [Spine binary format](http://esotericsoftware.com/spine-binary-format).
+ * @public
+ * */
+export class SkeletonBinaryWriter {
+    /** Divides bone positions, image sizes, and translations as they are written. Use the same value as
+     * {@link SkeletonBinary#scale} or {@link SkeletonJson#scale} that was used to load the data to write it in the
+     * original size. */
+    scale = 1;
+
+    /** Whether to write data that runtimes don't need: fps, images and audio paths, bone colors, colors of bounding boxes,
+     * paths, points and clipping attachments, mesh edges and sizes. */
+    nonessential = true;
+
+    /** Returns the contents of a `.skel` file for the skeleton data. */
+    writeSkeletonData(skeletonData: SkeletonData): Uint8Array {
+        let scale = this.scale;
+        let nonessential = this.nonessential;
+
+        // String table is written before bones, collect it while writing the rest.
+        let output = new BinaryOutput();
+
+        // Bones.
+        output.writeInt(skeletonData.bones.length, true);
+        for (let i = 0; i < skeletonData.bones.length; i++) {
+            let data = skeletonData.bones[i];
+            output.writeString(data.name);
+            if (i > 0) output.writeInt(data.parent.index, true);
+            output.writeFloat(data.rotation);
+            output.writeFloat(data.x / scale);
+            output.writeFloat(data.y / scale);
+            output.writeFloat(data.scaleX);
+            output.writeFloat(data.scaleY);
+            output.writeFloat(data.shearX);
+            output.writeFloat(data.shearY);
+            output.writeFloat(data.length / scale);
+            output.writeInt(data.transformMode, true);
+            output.writeBoolean(data.skinRequired);
+            if (nonessential)
+                output.writeInt32(Color.colorToRgba8888(data.color));
+        }
+
+        // Slots.
+        output.writeInt(skeletonData.slots.length, true);
+        for (let i = 0; i < skeletonData.slots.length; i++) {
+            let data = skeletonData.slots[i];
+            output.writeString(data.name);
+            output.writeInt(data.boneData.index, true);
+            output.writeInt32(Color.colorToRgba8888(data.color));
+            output.writeInt32(
+                data.darkColor ? Color.colorToRgb888(data.darkColor) : -1
+            );
+            output.writeStringRef(data.attachmentName);
+            output.writeInt(
+                Math.max(
+                    0,
+                    SkeletonBinary.BlendModeValues.indexOf(data.blendMode)
+                ),
+                true
+            );
+        }
+
+        // IK constraints.
+        output.writeInt(skeletonData.ikConstraints.length, true);
+        for (let i = 0; i < skeletonData.ikConstraints.length; i++) {
+            let data = skeletonData.ikConstraints[i];
+            output.writeString(data.name);
+            output.writeInt(data.order, true);
+            output.writeBoolean(data.skinRequired);
+            output.writeInt(data.bones.length, true);
+            for (let ii = 0; ii < data.bones.length; ii++)
+                output.writeInt(data.bones[ii].index, true);
+            output.writeInt(data.target.index, true);
+            output.writeFloat(data.mix);
+            output.writeFloat(data.softness / scale);
+            output.writeByte(data.bendDirection);
+            output.writeBoolean(data.compress);
+            output.writeBoolean(data.stretch);
+            output.writeBoolean(data.uniform);
+        }
+
+        // Transform constraints.
+        output.writeInt(skeletonData.transformConstraints.length, true);
+        for (let i = 0; i < skeletonData.transformConstraints.length; i++) {
+            let data = skeletonData.transformConstraints[i];
+            output.writeString(data.name);
+            output.writeInt(data.order, true);
+            output.writeBoolean(data.skinRequired);
+            output.writeInt(data.bones.length, true);
+            for (let ii = 0; ii < data.bones.length; ii++)
+                output.writeInt(data.bones[ii].index, true);
+            output.writeInt(data.target.index, true);
+            output.writeBoolean(data.local);
+            output.writeBoolean(data.relative);
+            output.writeFloat(data.offsetRotation);
+            output.writeFloat(data.offsetX / scale);
+            output.writeFloat(data.offsetY / scale);
+            output.writeFloat(data.offsetScaleX);
+            output.writeFloat(data.offsetScaleY);
+            output.writeFloat(data.offsetShearY);
+            output.writeFloat(data.mixRotate);
+            output.writeFloat(data.mixX);
+            output.writeFloat(data.mixY);
+            output.writeFloat(data.mixScaleX);
+            output.writeFloat(data.mixScaleY);
+            output.writeFloat(data.mixShearY);
+        }
+
+        // Path constraints.
+        output.writeInt(skeletonData.pathConstraints.length, true);
+        for (let i = 0; i < skeletonData.pathConstraints.length; i++) {
+            let data = skeletonData.pathConstraints[i];
+            output.writeString(data.name);
+            output.writeInt(data.order, true);
+            output.writeBoolean(data.skinRequired);
+            output.writeInt(data.bones.length, true);
+            for (let ii = 0; ii < data.bones.length; ii++)
+                output.writeInt(data.bones[ii].index, true);
+            output.writeInt(data.target.index, true);
+            output.writeInt(data.positionMode, true);
+            output.writeInt(data.spacingMode, true);
+            output.writeInt(data.rotateMode, true);
+            output.writeFloat(data.offsetRotation);
+            output.writeFloat(data.position / positionScale(data, scale));
+            output.writeFloat(data.spacing / spacingScale(data, scale));
+            output.writeFloat(data.mixRotate);
+            output.writeFloat(data.mixX);
+            output.writeFloat(data.mixY);
+        }
+
+        // Default skin goes first, SkeletonBinary puts it at index 0 of the skins.
+        let skins = skeletonData.skins.filter(
+            (skin) => skin != skeletonData.defaultSkin
+        );
+        if (skeletonData.defaultSkin) {
+            skins.unshift(skeletonData.defaultSkin);
+            this.writeSkin(
+                output,
+                skeletonData.defaultSkin,
+                true,
+                skeletonData
+            );
+        } else output.writeInt(0, true);
+
+        // Skins.
+        output.writeInt(
+            skeletonData.defaultSkin ? skins.length - 1 : skins.length,
+            true
+        );
+        for (let i = skeletonData.defaultSkin ? 1 : 0; i < skins.length; i++)
+            this.writeSkin(output, skins[i], false, skeletonData);
+
+        // Events.
+        output.writeInt(skeletonData.events.length, true);
+        for (let i = 0; i < skeletonData.events.length; i++) {
+            let data = skeletonData.events[i];
+            output.writeStringRef(data.name);
+            output.writeInt(data.intValue, false);
+            output.writeFloat(data.floatValue);
+            output.writeString(data.stringValue);
+            output.writeString(data.audioPath);
+            if (data.audioPath) {
+                output.writeFloat(data.volume);
+                output.writeFloat(data.balance);
+            }
+        }
+
+        // Animations.
+        output.writeInt(skeletonData.animations.length, true);
+        for (let i = 0; i < skeletonData.animations.length; i++) {
+            let animation = skeletonData.animations[i];
+            output.writeString(animation.name);
+            this.writeAnimation(output, animation, skeletonData, skins);
+        }
+
+        let header = new BinaryOutput();
+        let hash = hashToInts(skeletonData.hash);
+        header.writeInt32(hash[0]);
+        header.writeInt32(hash[1]);
+        header.writeString(skeletonData.version || "4.0");
+        // json reader leaves x and y undefined when the file doesn't have them
+        header.writeFloat(skeletonData.x || 0);
+        header.writeFloat(skeletonData.y || 0);
+        header.writeFloat(skeletonData.width);
+        header.writeFloat(skeletonData.height);
+        header.writeBoolean(nonessential);
+        if (nonessential) {
+            header.writeFloat(skeletonData.fps);
+            header.writeString(skeletonData.imagesPath);
+            header.writeString(skeletonData.audioPath);
+        }
+
+        // Strings.
+        header.writeInt(output.strings.length, true);
+        for (let i = 0; i < output.strings.length; i++)
+            header.writeString(output.strings[i]);
+
+        header.writeBytes(output.toUint8Array());
+        return header.toUint8Array();
+    }
+
+    private writeSkin(
+        output: BinaryOutput,
+        skin: Skin,
+        defaultSkin: boolean,
+        skeletonData: SkeletonData
+    ) {
+        let slotCount = 0;
+        for (let i = 0; i < skin.attachments.length; i++)
+            if (hasEntries(skin.attachments[i])) slotCount++;
+
+        if (!defaultSkin) {
+            output.writeStringRef(skin.name);
+            output.writeInt(skin.bones.length, true);
+            for (let i = 0; i < skin.bones.length; i++)
+                output.writeInt(skin.bones[i].index, true);
+
+            let ik: number[] = [],
+                transform: number[] = [],
+                path: number[] = [];
+            for (let i = 0; i < skin.constraints.length; i++) {
+                let constraint = skin.constraints[i];
+                if (constraint instanceof IkConstraintData)
+                    ik.push(skeletonData.ikConstraints.indexOf(constraint));
+                else if (constraint instanceof TransformConstraintData)
+                    transform.push(
+                        skeletonData.transformConstraints.indexOf(constraint)
+                    );
+                else if (constraint instanceof PathConstraintData)
+                    path.push(skeletonData.pathConstraints.indexOf(constraint));
+            }
+            writeIndices(output, ik);
+            writeIndices(output, transform);
+            writeIndices(output, path);
+        }
+
+        output.writeInt(slotCount, true);
+        for (
+            let slotIndex = 0;
+            slotIndex < skin.attachments.length;
+            slotIndex++
+        ) {
+            let attachments = skin.attachments[slotIndex];
+            if (!hasEntries(attachments)) continue;
+            let names = Object.keys(attachments);
+            output.writeInt(slotIndex, true);
+            output.writeInt(names.length, true);
+            for (let i = 0; i < names.length; i++) {
+                output.writeStringRef(names[i]);
+                this.writeAttachment(
+                    output,
+                    attachments[names[i]],
+                    slotIndex,
+                    names[i],
+                    skeletonData
+                );
+            }
+        }
+    }
+
+    private writeAttachment(
+        output: BinaryOutput,
+        attachment: Attachment,
+        slotIndex: number,
+        entryName: string,
+        skeletonData: SkeletonData
+    ) {
+        let scale = this.scale;
+        let nonessential = this.nonessential;
+
+        output.writeStringRef(
+            attachment.name != entryName ? attachment.name : null
+        );
+
+        switch (attachment.type) {
+            case AttachmentType.Region: {
+                let region = attachment as RegionAttachment;
+                output.writeByte(AttachmentType.Region);
+                output.writeStringRef(
+                    region.path != region.name ? region.path : null
+                );
+                output.writeFloat(region.rotation);
+                output.writeFloat(region.x / scale);
+                output.writeFloat(region.y / scale);
+                output.writeFloat(region.scaleX);
+                output.writeFloat(region.scaleY);
+                output.writeFloat(region.width / scale);
+                output.writeFloat(region.height / scale);
+                output.writeInt32(Color.colorToRgba8888(region.color));
+                return;
+            }
+            case AttachmentType.BoundingBox: {
+                let box = attachment as BoundingBoxAttachment;
+                output.writeByte(AttachmentType.BoundingBox);
+                output.writeInt(box.worldVerticesLength >> 1, true);
+                this.writeVertices(output, box);
+                if (nonessential)
+                    output.writeInt32(Color.colorToRgba8888(box.color));
+                return;
+            }
+            case AttachmentType.Mesh: {
+                let mesh = attachment as MeshAttachment;
+                let parent = mesh.getParentMesh();
+                if (parent) {
+                    let entry = findEntry(skeletonData, slotIndex, parent);
+                    if (!entry)
+                        throw new Error(
+                            "Parent mesh not found in skins: " + parent.name
+                        );
+                    output.writeByte(AttachmentType.LinkedMesh);
+                    output.writeStringRef(
+                        mesh.path != mesh.name ? mesh.path : null
+                    );
+                    output.writeInt32(Color.colorToRgba8888(mesh.color));
+                    output.writeStringRef(
+                        entry.skin == skeletonData.defaultSkin
+                            ? null
+                            : entry.skin.name
+                    );
+                    output.writeStringRef(entry.name);
+                    output.writeBoolean(mesh.deformAttachment == parent);
+                    if (nonessential) {
+                        output.writeFloat((mesh.width || 0) / scale);
+                        output.writeFloat((mesh.height || 0) / scale);
+                    }
+                    return;
+                }
+
+                let vertexCount = mesh.worldVerticesLength >> 1;
+                output.writeByte(AttachmentType.Mesh);
+                output.writeStringRef(
+                    mesh.path != mesh.name ? mesh.path : null
+                );
+                output.writeInt32(Color.colorToRgba8888(mesh.color));
+                output.writeInt(vertexCount, true);
+                for (let i = 0, n = vertexCount << 1; i < n; i++)
+                    output.writeFloat(mesh.regionUVs[i]);
+                writeShortArray(output, mesh.triangles);
+                this.writeVertices(output, mesh);
+                output.writeInt(mesh.hullLength >> 1, true);
+                if (nonessential) {
+                    writeShortArray(output, mesh.edges || []);
+                    output.writeFloat((mesh.width || 0) / scale);
+                    output.writeFloat((mesh.height || 0) / scale);
+                }
+                return;
+            }
+            case AttachmentType.Path: {
+                let path = attachment as PathAttachment;
+                output.writeByte(AttachmentType.Path);
+                output.writeBoolean(path.closed);
+                output.writeBoolean(path.constantSpeed);
+                output.writeInt(path.worldVerticesLength >> 1, true);
+                this.writeVertices(output, path);
+                for (let i = 0; i < path.lengths.length; i++)
+                    output.writeFloat(path.lengths[i] / scale);
+                if (nonessential)
+                    output.writeInt32(Color.colorToRgba8888(path.color));
+                return;
+            }
+            case AttachmentType.Point: {
+                let point = attachment as PointAttachment;
+                output.writeByte(AttachmentType.Point);
+                output.writeFloat(point.rotation);
+                output.writeFloat(point.x / scale);
+                output.writeFloat(point.y / scale);
+                if (nonessential)
+                    output.writeInt32(Color.colorToRgba8888(point.color));
+                return;
+            }
+            case AttachmentType.Clipping: {
+                let clip = attachment as ClippingAttachment;
+                output.writeByte(AttachmentType.Clipping);
+                output.writeInt(clip.endSlot ? clip.endSlot.index : 0, true);
+                output.writeInt(clip.worldVerticesLength >> 1, true);
+                this.writeVertices(output, clip);
+                if (nonessential)
+                    output.writeInt32(Color.colorToRgba8888(clip.color));
+                return;
+            }
+        }
+        throw new Error("Unknown attachment type: " + attachment.type);
+    }
+
+    private writeVertices(output: BinaryOutput, attachment: VertexAttachment) {
+        let scale = this.scale;
+        let vertices = attachment.vertices;
+        let bones = attachment.bones;
+        output.writeBoolean(!!bones);
+        if (!bones) {
+            for (let i = 0; i < vertices.length; i++)
+                output.writeFloat(vertices[i] / scale);
+            return;
+        }
+        for (let i = 0, w = 0; i < bones.length; ) {
+            let boneCount = bones[i++];
+            output.writeInt(boneCount, true);
+            for (let n = i + boneCount; i < n; i++, w += 3) {
+                output.writeInt(bones[i], true);
+                output.writeFloat(vertices[w] / scale);
+                output.writeFloat(vertices[w + 1] / scale);
+                output.writeFloat(vertices[w + 2]);
+            }
+        }
+    }
+
+    private writeAnimation(
+        output: BinaryOutput,
+        animation: Animation,
+        skeletonData: SkeletonData,
+        skins: Skin[]
+    ) {
+        let scale = this.scale;
+        let timelines = animation.timelines;
+        output.writeInt(timelines.length, true);
+
+        // Slot timelines.
+        let slotTimelines = group(
+            timelines.filter((timeline) => slotTimelineType(timeline) >= 0),
+            (timeline: any) => timeline.slotIndex
+        );
+        output.writeInt(slotTimelines.length, true);
+        for (let i = 0; i < slotTimelines.length; i++) {
+            output.writeInt(slotTimelines[i].key, true);
+            let items = slotTimelines[i].items;
+            output.writeInt(items.length, true);
+            for (let ii = 0; ii < items.length; ii++) {
+                let timeline = items[ii];
+                let type = slotTimelineType(timeline);
+                output.writeByte(type);
+                output.writeInt(timeline.getFrameCount(), true);
+                if (timeline instanceof AttachmentTimeline) {
+                    for (
+                        let frame = 0;
+                        frame < timeline.frames.length;
+                        frame++
+                    ) {
+                        output.writeFloat(timeline.frames[frame]);
+                        output.writeStringRef(timeline.attachmentNames[frame]);
+                    }
+                    continue;
+                }
+                let curveTimeline = timeline as CurveTimeline;
+                if (type == SLOT_ALPHA) {
+                    output.writeInt(bezierCount(curveTimeline, 1), true);
+                    writeFrames(output, curveTimeline, [1], (frames, i) => {
+                        output.writeFloat(frames[i]);
+                        writeColorByte(output, frames[i + 1]);
+                    });
+                    continue;
+                }
+                let colorCount = curveTimeline.getFrameEntries() - 1;
+                output.writeInt(bezierCount(curveTimeline, colorCount), true);
+                writeFrames(
+                    output,
+                    curveTimeline,
+                    newScales(colorCount, 1),
+                    (frames, i) => {
+                        output.writeFloat(frames[i]);
+                        for (let c = 1; c <= colorCount; c++)
+                            writeColorByte(output, frames[i + c]);
+                    }
+                );
+            }
+        }
+
+        // Bone timelines.
+        let boneTimelines = group(
+            timelines.filter((timeline) => boneTimelineType(timeline) >= 0),
+            (timeline: any) => timeline.boneIndex
+        );
+        output.writeInt(boneTimelines.length, true);
+        for (let i = 0; i < boneTimelines.length; i++) {
+            output.writeInt(boneTimelines[i].key, true);
+            let items = boneTimelines[i].items;
+            output.writeInt(items.length, true);
+            for (let ii = 0; ii < items.length; ii++) {
+                let timeline = items[ii] as CurveTimeline;
+                let type = boneTimelineType(timeline);
+                let valueCount = timeline instanceof CurveTimeline2 ? 2 : 1;
+                let timelineScale =
+                    type == BONE_TRANSLATE ||
+                    type == BONE_TRANSLATEX ||
+                    type == BONE_TRANSLATEY
+                        ? scale
+                        : 1;
+                output.writeByte(type);
+                output.writeInt(timeline.getFrameCount(), true);
+                output.writeInt(bezierCount(timeline, valueCount), true);
+                writeValueFrames(output, timeline, valueCount, timelineScale);
+            }
+        }
+
+        // IK constraint timelines.
+        let ikTimelines = timelines.filter(
+            (timeline) => timeline instanceof IkConstraintTimeline
+        ) as IkConstraintTimeline[];
+        output.writeInt(ikTimelines.length, true);
+        for (let i = 0; i < ikTimelines.length; i++) {
+            let timeline = ikTimelines[i];
+            let frames = timeline.frames;
+            let entries = timeline.getFrameEntries();
+            output.writeInt(timeline.ikConstraintIndex, true);
+            output.writeInt(timeline.getFrameCount(), true);
+            output.writeInt(bezierCount(timeline, 2), true);
+            for (
+                let frame = 0, n = timeline.getFrameCount();
+                frame < n;
+                frame++
+            ) {
+                let ii = frame * entries;
+                output.writeFloat(frames[ii]);
+                output.writeFloat(frames[ii + 1]);
+                output.writeFloat(frames[ii + 2] / scale);
+                if (frame > 0)
+                    writeCurve(output, timeline, frame - 1, [1, scale]);
+                output.writeByte(frames[ii + 3]);
+                output.writeBoolean(frames[ii + 4] != 0);
+                output.writeBoolean(frames[ii + 5] != 0);
+            }
+        }
+
+        // Transform constraint timelines.
+        let transformTimelines = timelines.filter(
+            (timeline) => timeline instanceof TransformConstraintTimeline
+        ) as TransformConstraintTimeline[];
+        output.writeInt(transformTimelines.length, true);
+        for (let i = 0; i < transformTimelines.length; i++) {
+            let timeline = transformTimelines[i];
+            output.writeInt(timeline.transformConstraintIndex, true);
+            output.writeInt(timeline.getFrameCount(), true);
+            output.writeInt(bezierCount(timeline, 6), true);
+            writeValueFrames(output, timeline, 6, 1);
+        }
+
+        // Path constraint timelines.
+        let pathTimelines = group(
+            timelines.filter((timeline) => pathTimelineType(timeline) >= 0),
+            (timeline: any) => timeline.pathConstraintIndex
+        );
+        output.writeInt(pathTimelines.length, true);
+        for (let i = 0; i < pathTimelines.length; i++) {
+            let data = skeletonData.pathConstraints[pathTimelines[i].key];
+            output.writeInt(pathTimelines[i].key, true);
+            let items = pathTimelines[i].items;
+            output.writeInt(items.length, true);
+            for (let ii = 0; ii < items.length; ii++) {
+                let timeline = items[ii] as CurveTimeline;
+                let type = pathTimelineType(timeline);
+                output.writeByte(type);
+                output.writeInt(timeline.getFrameCount(), true);
+                if (type == PATH_MIX) {
+                    output.writeInt(bezierCount(timeline, 3), true);
+                    writeValueFrames(output, timeline, 3, 1);
+                } else {
+                    output.writeInt(bezierCount(timeline, 1), true);
+                    writeValueFrames(
+                        output,
+                        timeline,
+                        1,
+                        type == PATH_POSITION
+                            ? positionScale(data, scale)
+                            : spacingScale(data, scale)
+                    );
+                }
+            }
+        }
+
+        // Deform timelines.
+        let deformTimelines: Array<{
+            skinIndex: number;
+            slotIndex: number;
+            name: string;
+            timeline: DeformTimeline;
+        }> = [];
+        for (let i = 0; i < timelines.length; i++) {
+            let timeline = timelines[i];
+            if (!(timeline instanceof DeformTimeline)) continue;
+            let entry = findEntry(
+                skeletonData,
+                timeline.slotIndex,
+                timeline.attachment
+            );
+            if (!entry)
+                throw new Error(
+                    "Deform attachment not found in skins: " +
+                        timeline.attachment.name
+                );
+            deformTimelines.push({
+                skinIndex: skins.indexOf(entry.skin),
+                slotIndex: timeline.slotIndex,
+                name: entry.name,
+                timeline,
+            });
+        }
+        let deformSkins = group(deformTimelines, (item) => item.skinIndex);
+        output.writeInt(deformSkins.length, true);
+        for (let i = 0; i < deformSkins.length; i++) {
+            output.writeInt(deformSkins[i].key, true);
+            let deformSlots = group(
+                deformSkins[i].items,
+                (item) => item.slotIndex
+            );
+            output.writeInt(deformSlots.length, true);
+            for (let ii = 0; ii < deformSlots.length; ii++) {
+                output.writeInt(deformSlots[ii].key, true);
+                let items = deformSlots[ii].items;
+                output.writeInt(items.length, true);
+                for (let iii = 0; iii < items.length; iii++) {
+                    output.writeStringRef(items[iii].name);
+                    this.writeDeformTimeline(output, items[iii].timeline);
+                }
+            }
+        }
+
+        // Draw order timeline.
+        let drawOrderTimeline = timelines.filter(
+            (timeline) => timeline instanceof DrawOrderTimeline
+        )[0] as DrawOrderTimeline;
+        if (!drawOrderTimeline) output.writeInt(0, true);
+        else {
+            output.writeInt(drawOrderTimeline.getFrameCount(), true);
+            for (
+                let frame = 0;
+                frame < drawOrderTimeline.getFrameCount();
+                frame++
+            ) {
+                output.writeFloat(drawOrderTimeline.frames[frame]);
+                let drawOrder = drawOrderTimeline.drawOrders[frame];
+                let offsets: number[] = [];
+                if (drawOrder) {
+                    for (
+                        let slotIndex = 0;
+                        slotIndex < drawOrder.length;
+                        slotIndex++
+                    ) {
+                        let index = drawOrder.indexOf(slotIndex);
+                        if (index != slotIndex)
+                            offsets.push(slotIndex, index - slotIndex);
+                    }
+                }
+                output.writeInt(offsets.length >> 1, true);
+                for (let i = 0; i < offsets.length; i += 2) {
+                    output.writeInt(offsets[i], true);
+                    output.writeInt(offsets[i + 1], true);
+                }
+            }
+        }
+
+        // Event timeline.
+        let eventTimeline = timelines.filter(
+            (timeline) => timeline instanceof EventTimeline
+        )[0] as EventTimeline;
+        if (!eventTimeline) output.writeInt(0, true);
+        else {
+            output.writeInt(eventTimeline.events.length, true);
+            for (let i = 0; i < eventTimeline.events.length; i++) {
+                let event = eventTimeline.events[i];
+                let data = event.data;
+                output.writeFloat(event.time);
+                output.writeInt(skeletonData.events.indexOf(data), true);
+                output.writeInt(event.intValue, false);
+                output.writeFloat(event.floatValue);
+                output.writeBoolean(event.stringValue != data.stringValue);
+                if (event.stringValue != data.stringValue)
+                    output.writeString(event.stringValue);
+                if (data.audioPath) {
+                    output.writeFloat(event.volume);
+                    output.writeFloat(event.balance);
+                }
+            }
+        }
+    }
+
+    private writeDeformTimeline(
+        output: BinaryOutput,
+        timeline: DeformTimeline
+    ) {
+        let scale = this.scale;
+        let attachment = timeline.attachment;
+        let setup = attachment.vertices;
+        let weighted = attachment.bones;
+        let frameCount = timeline.getFrameCount();
+        output.writeInt(frameCount, true);
+        output.writeInt(bezierCount(timeline, 1), true);
+        output.writeFloat(timeline.frames[0]);
+        for (let frame = 0; frame < frameCount; frame++) {
+            let deform = timeline.vertices[frame];
+            let start = 0,
+                end = deform.length;
+            let delta = (i: number) =>
+                (weighted ? deform[i] : deform[i] - setup[i]) / scale;
+            while (start < end && delta(start) == 0) start++;
+            while (end > start && delta(end - 1) == 0) end--;
+            output.writeInt(end - start, true);
+            if (end > start) {
+                output.writeInt(start, true);
+                for (let i = start; i < end; i++) output.writeFloat(delta(i));
+            }
+            if (frame == frameCount - 1) break;
+            output.writeFloat(timeline.frames[frame + 1]);
+            writeCurve(output, timeline, frame, [1]);
+        }
+    }
+}
+
+/** Skin, slot and entry name of an attachment. */
+interface SkinEntryInfo {
+    skin: Skin;
+    slotIndex: number;
+    name: string;
+}
+
+function findEntry(
+    skeletonData: SkeletonData,
+    slotIndex: number,
+    attachment: Attachment
+): SkinEntryInfo {
+    for (let i = 0; i < skeletonData.skins.length; i++) {
+        let skin = skeletonData.skins[i];
+        let attachments = skin.attachments[slotIndex];
+        if (!attachments) continue;
+        for (let name in attachments) {
+            if (attachments[name] == attachment)
+                return { skin, slotIndex, name };
+        }
+    }
+    return null;
+}
+
+function hasEntries(attachments: { [name: string]: Attachment }) {
+    return !!attachments && Object.keys(attachments).length > 0;
+}
+
+/** Groups items by key, keeping the order in which keys were first met. */
+function group<T>(
+    items: T[],
+    getKey: (item: T) => number
+): Array<{ key: number; items: T[] }> {
+    let groups: Array<{ key: number; items: T[] }> = [];
+    for (let i = 0; i < items.length; i++) {
+        let key = getKey(items[i]);
+        let found = groups.filter((g) => g.key == key)[0];
+        if (!found) groups.push((found = { key, items: [] }));
+        found.items.push(items[i]);
+    }
+    return groups;
+}
+
+function writeIndices(output: BinaryOutput, indices: number[]) {
+    output.writeInt(indices.length, true);
+    for (let i = 0; i < indices.length; i++) output.writeInt(indices[i], true);
+}
+
+function writeShortArray(output: BinaryOutput, array: ArrayLike<number>) {
+    output.writeInt(array.length, true);
+    for (let i = 0; i < array.length; i++) output.writeShort(array[i]);
+}
+
+function writeColorByte(output: BinaryOutput, value: number) {
+    output.writeUnsignedByte(Math.round(Math.max(0, Math.min(1, value)) * 255));
+}
+
+function newScales(count: number, scale: number) {
+    let scales: number[] = [];
+    for (let i = 0; i < count; i++) scales.push(scale);
+    return scales;
+}
+
+/** Number of Bezier curves that SkeletonBinary reserves for the timeline. */
+function bezierCount(timeline: CurveTimeline, valueCount: number) {
+    let count = 0;
+    for (let frame = 0, n = timeline.getFrameCount() - 1; frame < n; frame++)
+        if (timeline.getCurveType(frame) == CURVE_BEZIER) count += valueCount;
+    return count;
+}
+
+/** Writes key frames in the order SkeletonBinary reads them: the curve of each frame follows the values of the next
+ * frame. */
+function writeFrames(
+    output: BinaryOutput,
+    timeline: CurveTimeline,
+    scales: number[],
+    writeValues: (frames: ArrayLike<number>, i: number) => void
+) {
+    let entries = timeline.getFrameEntries();
+    for (let frame = 0, n = timeline.getFrameCount(); frame < n; frame++) {
+        writeValues(timeline.frames, frame * entries);
+        if (frame > 0) writeCurve(output, timeline, frame - 1, scales);
+    }
+}
+
+function writeValueFrames(
+    output: BinaryOutput,
+    timeline: CurveTimeline,
+    valueCount: number,
+    scale: number
+) {
+    writeFrames(output, timeline, newScales(valueCount, scale), (frames, i) => {
+        output.writeFloat(frames[i]);
+        for (let v = 1; v <= valueCount; v++)
+            output.writeFloat(frames[i + v] / scale);
+    });
+}
+
+function writeCurve(
+    output: BinaryOutput,
+    timeline: CurveTimeline,
+    frame: number,
+    scales: number[]
+) {
+    let type = timeline.getCurveType(frame);
+    output.writeByte(type);
+    if (type != CURVE_BEZIER) return;
+    let frames = timeline.frames;
+    let entries = timeline.getFrameEntries();
+    let deform = timeline instanceof DeformTimeline;
+    for (let value = 0; value < scales.length; value++) {
+        // deform curves go from 0 to 1
+        let value1 = deform ? 0 : frames[frame * entries + 1 + value];
+        let value2 = deform ? 1 : frames[frame * entries + entries + 1 + value];
+        let handles = timeline.getBezier(frame, value, value1, value2);
+        output.writeFloat(handles[0]);
+        output.writeFloat(handles[1] / scales[value]);
+        output.writeFloat(handles[2]);
+        output.writeFloat(handles[3] / scales[value]);
+    }
+}
+
+function positionScale(data: PathConstraintData, scale: number) {
+    return data.positionMode == PositionMode.Fixed ? scale : 1;
+}
+
+function spacingScale(data: PathConstraintData, scale: number) {
+    return data.spacingMode == SpacingMode.Length ||
+        data.spacingMode == SpacingMode.Fixed
+        ? scale
+        : 1;
+}
+
+/** SkeletonBinary shows the hash as two hex numbers, finds them back if the hash has that form. Other hashes, for
+ * example from JSON, are replaced with a checksum of the string. */
+function hashToInts(hash: string): [number, number] {
+    if (!hash) return [0, 0];
+    for (let i = 1; i < hash.length; i++) {
+        let high = hash.substr(0, i),
+            low = hash.substr(i);
+        let highValue = parseInt(high, 16),
+            lowValue = parseInt(low, 16);
+        if (
+            (highValue | 0) === highValue &&
+            (lowValue | 0) === lowValue &&
+            highValue.toString(16) === high &&
+            lowValue.toString(16) === low
+        )
+            return [lowValue, highValue];
+    }
+    let low = 0,
+        high = 0;
+    for (let i = 0; i < hash.length; i++) {
+        low = (low * 31 + hash.charCodeAt(i)) | 0;
+        high = (high * 37 + hash.charCodeAt(hash.length - 1 - i)) | 0;
+    }
+    return [low, high];
+}
+
+function slotTimelineType(timeline: Timeline) {
+    if (timeline instanceof AttachmentTimeline) return SLOT_ATTACHMENT;
+    if (timeline instanceof RGBATimeline) return SLOT_RGBA;
+    if (timeline instanceof RGBTimeline) return SLOT_RGB;
+    if (timeline instanceof RGBA2Timeline) return SLOT_RGBA2;
+    if (timeline instanceof RGB2Timeline) return SLOT_RGB2;
+    if (timeline instanceof AlphaTimeline) return SLOT_ALPHA;
+    return -1;
+}
+
+function boneTimelineType(timeline: Timeline) {
+    if (timeline instanceof RotateTimeline) return BONE_ROTATE;
+    if (timeline instanceof TranslateTimeline) return BONE_TRANSLATE;
+    if (timeline instanceof TranslateXTimeline) return BONE_TRANSLATEX;
+    if (timeline instanceof TranslateYTimeline) return BONE_TRANSLATEY;
+    if (timeline instanceof ScaleTimeline) return BONE_SCALE;
+    if (timeline instanceof ScaleXTimeline) return BONE_SCALEX;
+    if (timeline instanceof ScaleYTimeline) return BONE_SCALEY;
+    if (timeline instanceof ShearTimeline) return BONE_SHEAR;
+    if (timeline instanceof ShearXTimeline) return BONE_SHEARX;
+    if (timeline instanceof ShearYTimeline) return BONE_SHEARY;
+    return -1;
+}
+
+function pathTimelineType(timeline: Timeline) {
+    if (timeline instanceof PathConstraintPositionTimeline)
+        return PATH_POSITION;
+    if (timeline instanceof PathConstraintSpacingTimeline) return PATH_SPACING;
+    if (timeline instanceof PathConstraintMixTimeline) return PATH_MIX;
+    return -1;
+}
+
+const BONE_ROTATE = 0;
+const BONE_TRANSLATE = 1;
+const BONE_TRANSLATEX = 2;
+const BONE_TRANSLATEY = 3;
+const BONE_SCALE = 4;
+const BONE_SCALEX = 5;
+const BONE_SCALEY = 6;
+const BONE_SHEAR = 7;
+const BONE_SHEARX = 8;
+const BONE_SHEARY = 9;
+
+const SLOT_ATTACHMENT = 0;
+const SLOT_RGBA = 1;
+const SLOT_RGB = 2;
+const SLOT_RGBA2 = 3;
+const SLOT_RGB2 = 4;
+const SLOT_ALPHA = 5;
+
+const PATH_POSITION = 0;
+const PATH_SPACING = 1;
+const PATH_MIX = 2;
+
+const CURVE_BEZIER = 2;
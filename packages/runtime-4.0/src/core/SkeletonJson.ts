@@ -45,6 +45,7 @@ import { PathConstraintData, SpacingMode } from "./PathConstraintData";
 import { Skin } from "./Skin";
 import { EventData } from "./EventData";
 import {
+    BlendModes,
     NumberArrayLike,
     Color,
     PositionMode,
@@ -1697,10 +1698,10 @@ export class SkeletonJson {
     }
     static blendModeFromString(str: string) {
         str = str.toLowerCase();
-        if (str == "normal") return PIXI.BLEND_MODES.NORMAL;
-        if (str == "additive") return PIXI.BLEND_MODES.ADD;
-        if (str == "multiply") return PIXI.BLEND_MODES.MULTIPLY;
-        if (str == "screen") return PIXI.BLEND_MODES.SCREEN;
+        if (str == "normal") return BlendModes.NORMAL;
+        if (str == "additive") return BlendModes.ADD;
+        if (str == "multiply") return BlendModes.MULTIPLY;
+        if (str == "screen") return BlendModes.SCREEN;
         throw new Error(`Unknown blend mode: ${str}`);
     }
 }
@@ -0,0 +1,883 @@
+import type {
+    Attachment,
+    BoundingBoxAttachment,
+    ClippingAttachment,
+    MeshAttachment,
+    PathAttachment,
+    PointAttachment,
+    RegionAttachment,
+    VertexAttachment,
+} from "./attachments";
+import {
+    AlphaTimeline,
+    Animation,
+    AttachmentTimeline,
+    CurveTimeline,
+    CurveTimeline1,
+    CurveTimeline2,
+    DeformTimeline,
+    DrawOrderTimeline,
+    EventTimeline,
+    IkConstraintTimeline,
+    PathConstraintMixTimeline,
+    PathConstraintPositionTimeline,
+    PathConstraintSpacingTimeline,
+    RGB2Timeline,
+    RGBA2Timeline,
+    RGBATimeline,
+    RGBTimeline,
+    RotateTimeline,
+    ScaleTimeline,
+    ScaleXTimeline,
+    ScaleYTimeline,
+    ShearTimeline,
+    ShearXTimeline,
+    ShearYTimeline,
+    TransformConstraintTimeline,
+    TranslateTimeline,
+    TranslateXTimeline,
+    TranslateYTimeline,
+} from "./Animation";
+import type { SkeletonData } from "./SkeletonData";
+import { IkConstraintData } from "./IkConstraintData";
+import { TransformConstraintData } from "./TransformConstraintData";
+import { PathConstraintData, SpacingMode } from "./PathConstraintData";
+import type { Skin } from "./Skin";
+import {
+    AttachmentType,
+    BlendModes,
+    Color,
+    PositionMode,
+    RotateMode,
+    TransformMode,
+} from "@pixi-spine/base";
+
+/** Writes skeleton data in the Spine JSON format, the result can be read back by {@link SkeletonJson}.
+ *
+ * See [Spine JSON format](http://esotericsoftware.com/spine-json-format).
+ * @public
+ * */
+export class SkeletonJsonWriter {
+    /** Divides bone positions, image sizes, and translations as they are written. Use the same value as
+     * {@link SkeletonJson#scale} that was used to load the data to write it in the original size. */
+    scale = 1;
+
+    /** Returns the JSON object for the skeleton data, pass it to `JSON.stringify` to get the text of a `.json` file. */
+    writeSkeletonData(skeletonData: SkeletonData): any {
+        let scale = this.scale;
+        let root: any = {};
+
+        // Skeleton
+        let skeletonMap: any = {};
+        if (skeletonData.hash != null) skeletonMap.hash = skeletonData.hash;
+        skeletonMap.spine = skeletonData.version || "4.0";
+        skeletonMap.x = skeletonData.x || 0;
+        skeletonMap.y = skeletonData.y || 0;
+        skeletonMap.width = skeletonData.width;
+        skeletonMap.height = skeletonData.height;
+        if (skeletonData.fps) skeletonMap.fps = skeletonData.fps;
+        if (skeletonData.imagesPath != null)
+            skeletonMap.images = skeletonData.imagesPath;
+        root.skeleton = skeletonMap;
+
+        // Bones
+        root.bones = skeletonData.bones.map((data) => {
+            let boneMap: any = { name: data.name };
+            if (data.parent) boneMap.parent = data.parent.name;
+            setValue(boneMap, "length", data.length / scale, 0);
+            setValue(boneMap, "x", data.x / scale, 0);
+            setValue(boneMap, "y", data.y / scale, 0);
+            setValue(boneMap, "rotation", data.rotation, 0);
+            setValue(boneMap, "scaleX", data.scaleX, 1);
+            setValue(boneMap, "scaleY", data.scaleY, 1);
+            setValue(boneMap, "shearX", data.shearX, 0);
+            setValue(boneMap, "shearY", data.shearY, 0);
+            if (data.transformMode != TransformMode.Normal)
+                boneMap.transform = enumName(TransformMode, data.transformMode);
+            setValue(boneMap, "skin", data.skinRequired, false);
+            boneMap.color = colorToString(data.color);
+            return boneMap;
+        });
+
+        // Slots.
+        root.slots = skeletonData.slots.map((data) => {
+            let slotMap: any = { name: data.name, bone: data.boneData.name };
+            let color = colorToString(data.color);
+            if (color != "ffffffff") slotMap.color = color;
+            if (data.darkColor)
+                slotMap.dark = colorToString(data.darkColor, false);
+            if (data.attachmentName != null)
+                slotMap.attachment = data.attachmentName;
+            let blend = blendModeToString(data.blendMode);
+            if (blend != "normal") slotMap.blend = blend;
+            return slotMap;
+        });
+
+        // IK constraints
+        if (skeletonData.ikConstraints.length > 0) {
+            root.ik = skeletonData.ikConstraints.map((data) => {
+                let constraintMap: any = { name: data.name, order: data.order };
+                setValue(constraintMap, "skin", data.skinRequired, false);
+                constraintMap.bones = data.bones.map((bone) => bone.name);
+                constraintMap.target = data.target.name;
+                setValue(constraintMap, "mix", data.mix, 1);
+                setValue(constraintMap, "softness", data.softness / scale, 0);
+                setValue(
+                    constraintMap,
+                    "bendPositive",
+                    data.bendDirection == 1,
+                    true
+                );
+                setValue(constraintMap, "compress", data.compress, false);
+                setValue(constraintMap, "stretch", data.stretch, false);
+                setValue(constraintMap, "uniform", data.uniform, false);
+                return constraintMap;
+            });
+        }
+
+        // Transform constraints.
+        if (skeletonData.transformConstraints.length > 0) {
+            root.transform = skeletonData.transformConstraints.map((data) => {
+                let constraintMap: any = { name: data.name, order: data.order };
+                setValue(constraintMap, "skin", data.skinRequired, false);
+                constraintMap.bones = data.bones.map((bone) => bone.name);
+                constraintMap.target = data.target.name;
+                setValue(constraintMap, "local", data.local, false);
+                setValue(constraintMap, "relative", data.relative, false);
+                setValue(constraintMap, "rotation", data.offsetRotation, 0);
+                setValue(constraintMap, "x", data.offsetX / scale, 0);
+                setValue(constraintMap, "y", data.offsetY / scale, 0);
+                setValue(constraintMap, "scaleX", data.offsetScaleX, 0);
+                setValue(constraintMap, "scaleY", data.offsetScaleY, 0);
+                setValue(constraintMap, "shearY", data.offsetShearY, 0);
+                setValue(constraintMap, "mixRotate", data.mixRotate, 1);
+                setValue(constraintMap, "mixX", data.mixX, 1);
+                setValue(constraintMap, "mixY", data.mixY, data.mixX);
+                setValue(constraintMap, "mixScaleX", data.mixScaleX, 1);
+                setValue(
+                    constraintMap,
+                    "mixScaleY",
+                    data.mixScaleY,
+                    data.mixScaleX
+                );
+                setValue(constraintMap, "mixShearY", data.mixShearY, 1);
+                return constraintMap;
+            });
+        }
+
+        // Path constraints.
+        if (skeletonData.pathConstraints.length > 0) {
+            root.path = skeletonData.pathConstraints.map((data) => {
+                let constraintMap: any = { name: data.name, order: data.order };
+                setValue(constraintMap, "skin", data.skinRequired, false);
+                constraintMap.bones = data.bones.map((bone) => bone.name);
+                constraintMap.target = data.target.name;
+                if (data.positionMode != PositionMode.Percent)
+                    constraintMap.positionMode = enumName(
+                        PositionMode,
+                        data.positionMode
+                    );
+                if (data.spacingMode != SpacingMode.Length)
+                    constraintMap.spacingMode = enumName(
+                        SpacingMode,
+                        data.spacingMode
+                    );
+                if (data.rotateMode != RotateMode.Tangent)
+                    constraintMap.rotateMode = enumName(
+                        RotateMode,
+                        data.rotateMode
+                    );
+                setValue(constraintMap, "rotation", data.offsetRotation, 0);
+                setValue(
+                    constraintMap,
+                    "position",
+                    data.position / positionScale(data, scale),
+                    0
+                );
+                setValue(
+                    constraintMap,
+                    "spacing",
+                    data.spacing / spacingScale(data, scale),
+                    0
+                );
+                setValue(constraintMap, "mixRotate", data.mixRotate, 1);
+                setValue(constraintMap, "mixX", data.mixX, 1);
+                setValue(constraintMap, "mixY", data.mixY, data.mixX);
+                return constraintMap;
+            });
+        }
+
+        // Skins.
+        root.skins = skeletonData.skins.map((skin) =>
+            this.writeSkin(skin, skeletonData)
+        );
+
+        // Events.
+        if (skeletonData.events.length > 0) {
+            root.events = {};
+            for (let i = 0; i < skeletonData.events.length; i++) {
+                let data = skeletonData.events[i];
+                let eventMap: any = {};
+                setValue(eventMap, "int", data.intValue, 0);
+                setValue(eventMap, "float", data.floatValue, 0);
+                setValue(eventMap, "string", data.stringValue, "");
+                if (data.audioPath) {
+                    eventMap.audio = data.audioPath;
+                    setValue(eventMap, "volume", data.volume, 1);
+                    setValue(eventMap, "balance", data.balance, 0);
+                }
+                root.events[data.name] = eventMap;
+            }
+        }
+
+        // Animations.
+        if (skeletonData.animations.length > 0) {
+            root.animations = {};
+            for (let i = 0; i < skeletonData.animations.length; i++) {
+                let animation = skeletonData.animations[i];
+                root.animations[animation.name] = this.writeAnimation(
+                    animation,
+                    skeletonData
+                );
+            }
+        }
+
+        return root;
+    }
+
+    private writeSkin(skin: Skin, skeletonData: SkeletonData): any {
+        let skinMap: any = { name: skin.name };
+        if (skin.bones.length > 0)
+            skinMap.bones = skin.bones.map((bone) => bone.name);
+        let ik: string[] = [],
+            transform: string[] = [],
+            path: string[] = [];
+        for (let i = 0; i < skin.constraints.length; i++) {
+            let constraint = skin.constraints[i];
+            if (constraint instanceof IkConstraintData)
+                ik.push(constraint.name);
+            else if (constraint instanceof TransformConstraintData)
+                transform.push(constraint.name);
+            else if (constraint instanceof PathConstraintData)
+                path.push(constraint.name);
+        }
+        if (ik.length > 0) skinMap.ik = ik;
+        if (transform.length > 0) skinMap.transform = transform;
+        if (path.length > 0) skinMap.path = path;
+
+        skinMap.attachments = {};
+        for (
+            let slotIndex = 0;
+            slotIndex < skin.attachments.length;
+            slotIndex++
+        ) {
+            let attachments = skin.attachments[slotIndex];
+            if (!attachments) continue;
+            let slotMap: any = {};
+            let empty = true;
+            for (let entryName in attachments) {
+                slotMap[entryName] = this.writeAttachment(
+                    attachments[entryName],
+                    slotIndex,
+                    entryName,
+                    skeletonData
+                );
+                empty = false;
+            }
+            if (!empty)
+                skinMap.attachments[skeletonData.slots[slotIndex].name] =
+                    slotMap;
+        }
+        return skinMap;
+    }
+
+    private writeAttachment(
+        attachment: Attachment,
+        slotIndex: number,
+        entryName: string,
+        skeletonData: SkeletonData
+    ): any {
+        let scale = this.scale;
+        let map: any = {};
+        if (attachment.name != entryName) map.name = attachment.name;
+
+        switch (attachment.type) {
+            case AttachmentType.Region: {
+                let region = attachment as RegionAttachment;
+                if (region.path != region.name) map.path = region.path;
+                setValue(map, "x", region.x / scale, 0);
+                setValue(map, "y", region.y / scale, 0);
+                setValue(map, "scaleX", region.scaleX, 1);
+                setValue(map, "scaleY", region.scaleY, 1);
+                setValue(map, "rotation", region.rotation, 0);
+                map.width = region.width / scale;
+                map.height = region.height / scale;
+                let color = colorToString(region.color);
+                if (color != "ffffffff") map.color = color;
+                return map;
+            }
+            case AttachmentType.BoundingBox: {
+                let box = attachment as BoundingBoxAttachment;
+                map.type = "boundingbox";
+                map.vertexCount = box.worldVerticesLength >> 1;
+                this.writeVertices(box, map);
+                map.color = colorToString(box.color);
+                return map;
+            }
+            case AttachmentType.Mesh: {
+                let mesh = attachment as MeshAttachment;
+                let parent = mesh.getParentMesh();
+                if (mesh.path != mesh.name) map.path = mesh.path;
+                let color = colorToString(mesh.color);
+                if (color != "ffffffff") map.color = color;
+                setValue(map, "width", (mesh.width || 0) / scale, 0);
+                setValue(map, "height", (mesh.height || 0) / scale, 0);
+
+                if (parent) {
+                    let entry = findEntry(skeletonData, slotIndex, parent);
+                    if (!entry)
+                        throw new Error(
+                            "Parent mesh not found in skins: " + parent.name
+                        );
+                    map.type = "linkedmesh";
+                    if (entry.skin.name != "default")
+                        map.skin = entry.skin.name;
+                    map.parent = entry.name;
+                    if (mesh.deformAttachment != parent) map.deform = false;
+                    return map;
+                }
+
+                map.type = "mesh";
+                map.uvs = toArray(mesh.regionUVs);
+                map.triangles = mesh.triangles.slice();
+                this.writeVertices(mesh, map);
+                map.hull = mesh.hullLength / 2;
+                if (mesh.edges && mesh.edges.length > 0)
+                    map.edges = mesh.edges.slice();
+                return map;
+            }
+            case AttachmentType.Path: {
+                let path = attachment as PathAttachment;
+                map.type = "path";
+                setValue(map, "closed", path.closed, false);
+                setValue(map, "constantSpeed", path.constantSpeed, true);
+                map.vertexCount = path.worldVerticesLength >> 1;
+                this.writeVertices(path, map);
+                map.lengths = path.lengths.map((length) =>
+                    toNumber(length / scale)
+                );
+                map.color = colorToString(path.color);
+                return map;
+            }
+            case AttachmentType.Point: {
+                let point = attachment as PointAttachment;
+                map.type = "point";
+                setValue(map, "x", point.x / scale, 0);
+                setValue(map, "y", point.y / scale, 0);
+                setValue(map, "rotation", point.rotation, 0);
+                map.color = colorToString(point.color);
+                return map;
+            }
+            case AttachmentType.Clipping: {
+                let clip = attachment as ClippingAttachment;
+                map.type = "clipping";
+                if (clip.endSlot) map.end = clip.endSlot.name;
+                map.vertexCount = clip.worldVerticesLength >> 1;
+                this.writeVertices(clip, map);
+                map.color = colorToString(clip.color);
+                return map;
+            }
+        }
+        throw new Error("Unknown attachment type: " + attachment.type);
+    }
+
+    private writeVertices(attachment: VertexAttachment, map: any) {
+        let scale = this.scale;
+        let vertices = attachment.vertices;
+        let bones = attachment.bones;
+        let result: number[] = [];
+        if (!bones) {
+            for (let i = 0; i < vertices.length; i++)
+                result.push(toNumber(vertices[i] / scale));
+        } else {
+            for (let i = 0, w = 0; i < bones.length; ) {
+                let boneCount = bones[i++];
+                result.push(boneCount);
+                for (let n = i + boneCount; i < n; i++, w += 3) {
+                    result.push(
+                        bones[i],
+                        toNumber(vertices[w] / scale),
+                        toNumber(vertices[w + 1] / scale),
+                        toNumber(vertices[w + 2])
+                    );
+                }
+            }
+        }
+        map.vertices = result;
+    }
+
+    private writeAnimation(
+        animation: Animation,
+        skeletonData: SkeletonData
+    ): any {
+        let scale = this.scale;
+        let map: any = {};
+
+        for (let i = 0; i < animation.timelines.length; i++) {
+            let timeline = animation.timelines[i];
+
+            // Slot timelines.
+            if (timeline instanceof AttachmentTimeline) {
+                let slotMap = getMap(
+                    getMap(map, "slots"),
+                    skeletonData.slots[timeline.slotIndex].name
+                );
+                let keys: any[] = [];
+                for (let frame = 0; frame < timeline.frames.length; frame++) {
+                    let key: any = {};
+                    setValue(key, "time", toNumber(timeline.frames[frame]), 0);
+                    key.name = timeline.attachmentNames[frame];
+                    keys.push(key);
+                }
+                slotMap.attachment = keys;
+            } else if (timeline instanceof RGBATimeline) {
+                getMap(
+                    getMap(map, "slots"),
+                    skeletonData.slots[timeline.slotIndex].name
+                ).rgba = writeKeys(timeline, [1, 1, 1, 1], (key, frames, i) => {
+                    key.color = framesToColor(frames, i + 1, true);
+                });
+            } else if (timeline instanceof RGBTimeline) {
+                getMap(
+                    getMap(map, "slots"),
+                    skeletonData.slots[timeline.slotIndex].name
+                ).rgb = writeKeys(timeline, [1, 1, 1], (key, frames, i) => {
+                    key.color = framesToColor(frames, i + 1, false);
+                });
+            } else if (timeline instanceof AlphaTimeline) {
+                getMap(
+                    getMap(map, "slots"),
+                    skeletonData.slots[timeline.slotIndex].name
+                ).alpha = writeTimeline1(timeline, 0, 1);
+            } else if (timeline instanceof RGBA2Timeline) {
+                getMap(
+                    getMap(map, "slots"),
+                    skeletonData.slots[timeline.slotIndex].name
+                ).rgba2 = writeKeys(
+                    timeline,
+                    [1, 1, 1, 1, 1, 1, 1],
+                    (key, frames, i) => {
+                        key.light = framesToColor(frames, i + 1, true);
+                        key.dark = framesToColor(frames, i + 5, false);
+                    }
+                );
+            } else if (timeline instanceof RGB2Timeline) {
+                getMap(
+                    getMap(map, "slots"),
+                    skeletonData.slots[timeline.slotIndex].name
+                ).rgb2 = writeKeys(
+                    timeline,
+                    [1, 1, 1, 1, 1, 1],
+                    (key, frames, i) => {
+                        key.light = framesToColor(frames, i + 1, false);
+                        key.dark = framesToColor(frames, i + 4, false);
+                    }
+                );
+            }
+
+            // Bone timelines.
+            else if (timeline instanceof RotateTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).rotate = writeTimeline1(timeline, 0, 1);
+            } else if (timeline instanceof TranslateTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).translate = writeTimeline2(timeline, 0, scale);
+            } else if (timeline instanceof TranslateXTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).translatex = writeTimeline1(timeline, 0, scale);
+            } else if (timeline instanceof TranslateYTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).translatey = writeTimeline1(timeline, 0, scale);
+            } else if (timeline instanceof ScaleTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).scale = writeTimeline2(timeline, 1, 1);
+            } else if (timeline instanceof ScaleXTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).scalex = writeTimeline1(timeline, 1, 1);
+            } else if (timeline instanceof ScaleYTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).scaley = writeTimeline1(timeline, 1, 1);
+            } else if (timeline instanceof ShearTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).shear = writeTimeline2(timeline, 0, 1);
+            } else if (timeline instanceof ShearXTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).shearx = writeTimeline1(timeline, 0, 1);
+            } else if (timeline instanceof ShearYTimeline) {
+                getMap(
+                    getMap(map, "bones"),
+                    skeletonData.bones[timeline.boneIndex].name
+                ).sheary = writeTimeline1(timeline, 0, 1);
+            }
+
+            // IK constraint timelines.
+            else if (timeline instanceof IkConstraintTimeline) {
+                getMap(map, "ik")[
+                    skeletonData.ikConstraints[timeline.ikConstraintIndex].name
+                ] = writeKeys(timeline, [1, scale], (key, frames, i) => {
+                    setValue(key, "mix", toNumber(frames[i + 1]), 1);
+                    setValue(
+                        key,
+                        "softness",
+                        toNumber(frames[i + 2] / scale),
+                        0
+                    );
+                    setValue(key, "bendPositive", frames[i + 3] == 1, true);
+                    setValue(key, "compress", frames[i + 4] != 0, false);
+                    setValue(key, "stretch", frames[i + 5] != 0, false);
+                });
+            }
+
+            // Transform constraint timelines.
+            else if (timeline instanceof TransformConstraintTimeline) {
+                getMap(map, "transform")[
+                    skeletonData.transformConstraints[
+                        timeline.transformConstraintIndex
+                    ].name
+                ] = writeKeys(
+                    timeline,
+                    [1, 1, 1, 1, 1, 1],
+                    (key, frames, i) => {
+                        setValue(key, "mixRotate", toNumber(frames[i + 1]), 1);
+                        setValue(key, "mixX", toNumber(frames[i + 2]), 1);
+                        setValue(
+                            key,
+                            "mixY",
+                            toNumber(frames[i + 3]),
+                            toNumber(frames[i + 2])
+                        );
+                        setValue(key, "mixScaleX", toNumber(frames[i + 4]), 1);
+                        setValue(
+                            key,
+                            "mixScaleY",
+                            toNumber(frames[i + 5]),
+                            toNumber(frames[i + 4])
+                        );
+                        setValue(key, "mixShearY", toNumber(frames[i + 6]), 1);
+                    }
+                );
+            }
+
+            // Path constraint timelines.
+            else if (timeline instanceof PathConstraintPositionTimeline) {
+                let data =
+                    skeletonData.pathConstraints[timeline.pathConstraintIndex];
+                getMap(getMap(map, "path"), data.name).position =
+                    writeTimeline1(timeline, 0, positionScale(data, scale));
+            } else if (timeline instanceof PathConstraintSpacingTimeline) {
+                let data =
+                    skeletonData.pathConstraints[timeline.pathConstraintIndex];
+                getMap(getMap(map, "path"), data.name).spacing = writeTimeline1(
+                    timeline,
+                    0,
+                    spacingScale(data, scale)
+                );
+            } else if (timeline instanceof PathConstraintMixTimeline) {
+                let data =
+                    skeletonData.pathConstraints[timeline.pathConstraintIndex];
+                getMap(getMap(map, "path"), data.name).mix = writeKeys(
+                    timeline,
+                    [1, 1, 1],
+                    (key, frames, i) => {
+                        setValue(key, "mixRotate", toNumber(frames[i + 1]), 1);
+                        setValue(key, "mixX", toNumber(frames[i + 2]), 1);
+                        setValue(
+                            key,
+                            "mixY",
+                            toNumber(frames[i + 3]),
+                            toNumber(frames[i + 2])
+                        );
+                    }
+                );
+            }
+
+            // Deform timelines.
+            else if (timeline instanceof DeformTimeline) {
+                let entry = findEntry(
+                    skeletonData,
+                    timeline.slotIndex,
+                    timeline.attachment
+                );
+                if (!entry) continue;
+                let attachment = timeline.attachment;
+                let setup = attachment.vertices;
+                let weighted = attachment.bones;
+                let deforms = timeline.vertices;
+                let slotMap = getMap(
+                    getMap(getMap(map, "deform"), entry.skin.name),
+                    skeletonData.slots[entry.slotIndex].name
+                );
+                slotMap[entry.name] = writeKeys(
+                    timeline,
+                    [1],
+                    (key, frames, i) => {
+                        let deform = deforms[i / timeline.getFrameEntries()];
+                        let vertices: number[] = [];
+                        for (let ii = 0; ii < deform.length; ii++)
+                            vertices.push(
+                                toNumber(
+                                    (weighted
+                                        ? deform[ii]
+                                        : deform[ii] - setup[ii]) / scale
+                                )
+                            );
+                        let start = 0,
+                            end = vertices.length;
+                        while (start < end && vertices[start] == 0) start++;
+                        while (end > start && vertices[end - 1] == 0) end--;
+                        if (start == end) return;
+                        setValue(key, "offset", start, 0);
+                        key.vertices = vertices.slice(start, end);
+                    }
+                );
+            }
+
+            // Draw order timeline.
+            else if (timeline instanceof DrawOrderTimeline) {
+                let keys: any[] = [];
+                for (let frame = 0; frame < timeline.frames.length; frame++) {
+                    let key: any = {};
+                    setValue(key, "time", toNumber(timeline.frames[frame]), 0);
+                    let drawOrder = timeline.drawOrders[frame];
+                    if (drawOrder) {
+                        let offsets: Array<{
+                            slotIndex: number;
+                            offset: number;
+                        }> = [];
+                        for (let index = 0; index < drawOrder.length; index++) {
+                            let slotIndex = drawOrder[index];
+                            if (slotIndex != index)
+                                offsets.push({
+                                    slotIndex,
+                                    offset: index - slotIndex,
+                                });
+                        }
+                        offsets.sort((a, b) => a.slotIndex - b.slotIndex);
+                        // setup order, binary data has it instead of no draw order
+                        if (offsets.length > 0)
+                            key.offsets = offsets.map((offset) => ({
+                                slot: skeletonData.slots[offset.slotIndex].name,
+                                offset: offset.offset,
+                            }));
+                    }
+                    keys.push(key);
+                }
+                map.drawOrder = keys;
+            }
+
+            // Event timeline.
+            else if (timeline instanceof EventTimeline) {
+                map.events = timeline.events.map((event) => {
+                    let data = event.data;
+                    let key: any = {};
+                    setValue(key, "time", toNumber(event.time), 0);
+                    key.name = data.name;
+                    setValue(key, "int", event.intValue, data.intValue);
+                    setValue(key, "float", event.floatValue, data.floatValue);
+                    setValue(
+                        key,
+                        "string",
+                        event.stringValue,
+                        data.stringValue
+                    );
+                    if (data.audioPath) {
+                        setValue(key, "volume", event.volume, 1);
+                        setValue(key, "balance", event.balance, 0);
+                    }
+                    return key;
+                });
+            }
+        }
+
+        return map;
+    }
+}
+
+/** Skin, slot and entry name of an attachment. */
+interface SkinEntryInfo {
+    skin: Skin;
+    slotIndex: number;
+    name: string;
+}
+
+function findEntry(
+    skeletonData: SkeletonData,
+    slotIndex: number,
+    attachment: Attachment
+): SkinEntryInfo {
+    for (let i = 0; i < skeletonData.skins.length; i++) {
+        let skin = skeletonData.skins[i];
+        let attachments = skin.attachments[slotIndex];
+        if (!attachments) continue;
+        for (let name in attachments) {
+            if (attachments[name] == attachment)
+                return { skin, slotIndex, name };
+        }
+    }
+    return null;
+}
+
+function writeKeys(
+    timeline: CurveTimeline,
+    curveScales: number[],
+    writeValues: (key: any, frames: ArrayLike<number>, i: number) => void
+): any[] {
+    let frames = timeline.frames;
+    let entries = timeline.getFrameEntries();
+    let keys: any[] = [];
+    for (let frame = 0, n = timeline.getFrameCount(); frame < n; frame++) {
+        let i = frame * entries;
+        let key: any = {};
+        setValue(key, "time", toNumber(frames[i]), 0);
+        writeValues(key, frames, i);
+        if (frame < n - 1) {
+            let curve = writeCurve(timeline, frame, curveScales);
+            if (curve) key.curve = curve;
+        }
+        keys.push(key);
+    }
+    return keys;
+}
+
+function writeTimeline1(
+    timeline: CurveTimeline1,
+    defaultValue: number,
+    scale: number
+) {
+    return writeKeys(timeline, [scale], (key, frames, i) => {
+        setValue(key, "value", toNumber(frames[i + 1] / scale), defaultValue);
+    });
+}
+
+function writeTimeline2(
+    timeline: CurveTimeline2,
+    defaultValue: number,
+    scale: number
+) {
+    return writeKeys(timeline, [scale, scale], (key, frames, i) => {
+        setValue(key, "x", toNumber(frames[i + 1] / scale), defaultValue);
+        setValue(key, "y", toNumber(frames[i + 2] / scale), defaultValue);
+    });
+}
+
+/** Returns the curve of the key frame in JSON form, handle values are divided by the scale that {@link SkeletonJson} applies. */
+function writeCurve(
+    timeline: CurveTimeline,
+    frame: number,
+    scales: number[]
+): any {
+    let type = timeline.getCurveType(frame);
+    if (type == 0 /* LINEAR */) return null;
+    if (type == 1 /* STEPPED */) return "stepped";
+
+    let frames = timeline.frames;
+    let entries = timeline.getFrameEntries();
+    let deform = timeline instanceof DeformTimeline;
+    let curve: number[] = [];
+    for (let value = 0; value < scales.length; value++) {
+        // deform curves go from 0 to 1
+        let value1 = deform ? 0 : frames[frame * entries + 1 + value];
+        let value2 = deform ? 1 : frames[frame * entries + entries + 1 + value];
+        let handles = timeline.getBezier(frame, value, value1, value2);
+        curve.push(
+            toNumber(handles[0]),
+            toNumber(handles[1] / scales[value]),
+            toNumber(handles[2]),
+            toNumber(handles[3] / scales[value])
+        );
+    }
+    return curve;
+}
+
+function positionScale(data: PathConstraintData, scale: number) {
+    return data.positionMode == PositionMode.Fixed ? scale : 1;
+}
+
+function spacingScale(data: PathConstraintData, scale: number) {
+    return data.spacingMode == SpacingMode.Length ||
+        data.spacingMode == SpacingMode.Fixed
+        ? scale
+        : 1;
+}
+
+function getMap(map: any, name: string): any {
+    return map[name] || (map[name] = {});
+}
+
+function setValue(map: any, property: string, value: any, defaultValue: any) {
+    if (value !== defaultValue) map[property] = value;
+}
+
+/** Drops the noise that single precision storage adds to decimal values. */
+function toNumber(value: number) {
+    return parseFloat(value.toPrecision(8));
+}
+
+function toArray(values: ArrayLike<number>) {
+    let result: number[] = [];
+    for (let i = 0; i < values.length; i++) result.push(toNumber(values[i]));
+    return result;
+}
+
+function enumName(type: any, value: number) {
+    let name: string = type[value];
+    return name[0].toLowerCase() + name.slice(1);
+}
+
+function toHex(value: number) {
+    let hex = Math.round(Math.max(0, Math.min(1, value)) * 255).toString(16);
+    return hex.length < 2 ? "0" + hex : hex;
+}
+
+function colorToString(color: Color, alpha = true) {
+    return (
+        toHex(color.r) +
+        toHex(color.g) +
+        toHex(color.b) +
+        (alpha ? toHex(color.a) : "")
+    );
+}
+
+function framesToColor(frames: ArrayLike<number>, i: number, alpha: boolean) {
+    return (
+        toHex(frames[i]) +
+        toHex(frames[i + 1]) +
+        toHex(frames[i + 2]) +
+        (alpha ? toHex(frames[i + 3]) : "")
+    );
+}
+
+function blendModeToString(blendMode: PIXI.BLEND_MODES) {
+    if (blendMode == BlendModes.ADD) return "additive";
+    if (blendMode == BlendModes.MULTIPLY) return "multiply";
+    if (blendMode == BlendModes.SCREEN) return "screen";
+    return "normal";
+}
@@ -0,0 +1,259 @@
+const { expect } = require('chai');
+const { TextureAtlasData } = require('@pixi-spine/base/lib/core');
+const {
+    AtlasAttachmentLoader,
+    SkeletonBinary,
+    SkeletonBinaryWriter,
+    SkeletonJson,
+    SkeletonJsonWriter,
+} = require('../lib/core');
+
+const atlasText = `
+sample.png
+size: 64,64
+filter: Linear,Linear
+body
+bounds: 0,0,32,32
+hand
+bounds: 32,0,16,16
+`;
+
+const skeletonJson = {
+    skeleton: { spine: '4.0.64', width: 100, height: 200 },
+    bones: [
+        { name: 'root' },
+        { name: 'arm', parent: 'root', length: 50, rotation: 30, x: 10, y: 20 },
+        { name: 'target', parent: 'root', x: 60, y: 40 },
+    ],
+    slots: [
+        { name: 'body', bone: 'root', attachment: 'body' },
+        { name: 'hand', bone: 'arm', color: 'ff8080ff', dark: '202020', attachment: 'hand', blend: 'additive' },
+    ],
+    ik: [
+        { name: 'reach', bones: ['arm'], target: 'target', mix: 0.5 },
+    ],
+    skins: [{
+        name: 'default',
+        attachments: {
+            body: { body: { width: 32, height: 32, x: 1, y: 2, rotation: 10 } },
+            hand: {
+                hand: {
+                    type: 'mesh',
+                    uvs: [0, 0, 1, 0, 1, 1, 0, 1],
+                    triangles: [0, 1, 2, 2, 3, 0],
+                    vertices: [-10, -10, 10, -10, 10, 10, -10, 10],
+                    hull: 4,
+                    width: 16,
+                    height: 16,
+                },
+                glove: { type: 'linkedmesh', path: 'hand', parent: 'hand', deform: false, width: 16, height: 16 },
+            },
+        },
+    }, {
+        name: 'mittens',
+        attachments: {
+            hand: {
+                mitten: { type: 'linkedmesh', path: 'hand', skin: 'default', parent: 'hand', width: 16, height: 16 },
+            },
+        },
+    }],
+    events: {
+        step: { int: 1, float: 0.5, string: 'left' },
+        sound: { audio: 'step.ogg', volume: 0.75, balance: -0.25 },
+    },
+    animations: {
+        walk: {
+            bones: {
+                arm: {
+                    rotate: [
+                        { value: 0, curve: [0.25, 0, 0.75, 45] },
+                        { time: 0.5, value: 45, curve: 'stepped' },
+                        { time: 1, value: -15 },
+                    ],
+                    translate: [
+                        { x: 0, y: 0, curve: [0.1, 0, 0.4, 8, 0.1, 0, 0.3, -4] },
+                        { time: 1, x: 10, y: -5 },
+                    ],
+                },
+            },
+            slots: {
+                hand: {
+                    rgba: [
+                        { color: 'ffffffff', curve: [0.2, 1, 0.8, 0.5, 0.2, 1, 0.8, 0, 0.2, 1, 0.8, 0, 0.2, 1, 0.8, 1] },
+                        { time: 1, color: '80000080' },
+                    ],
+                    attachment: [
+                        { time: 0.5, name: 'glove' },
+                        { time: 1, name: null },
+                    ],
+                },
+            },
+            ik: {
+                reach: [
+                    { mix: 1, softness: 5, curve: [0.3, 1, 0.6, 0, 0.3, 5, 0.6, 10] },
+                    { time: 1, mix: 0, softness: 10, bendPositive: false },
+                ],
+            },
+            deform: {
+                default: {
+                    hand: {
+                        hand: [
+                            { curve: [0.25, 0, 0.75, 1] },
+                            { time: 0.5, offset: 2, vertices: [3, -3, 4.5, 1] },
+                            { time: 1 },
+                        ],
+                    },
+                },
+            },
+            drawOrder: [
+                { time: 0.25, offsets: [{ slot: 'body', offset: 1 }] },
+                { time: 0.75 },
+            ],
+            events: [
+                { time: 0.25, name: 'step' },
+                { time: 0.75, name: 'step', int: 2, float: 1.5, string: 'right' },
+                { time: 1, name: 'sound', volume: 0.5 },
+            ],
+        },
+    },
+};
+
+function readJson(json, scale = 1) {
+    const reader = new SkeletonJson(new AtlasAttachmentLoader(new TextureAtlasData(atlasText)));
+
+    reader.scale = scale;
+
+    return reader.readSkeletonData(json);
+}
+
+function expectCloseArrays(actual, expected) {
+    expect(actual.length).to.equal(expected.length);
+    for (let i = 0; i < expected.length; i++) {
+        expect(actual[i]).to.be.closeTo(expected[i], 1e-3);
+    }
+}
+
+function expectSameTimelines(actual, expected) {
+    expect(actual.timelines.length).to.equal(expected.timelines.length);
+    expected.timelines.forEach((timeline, i) => {
+        const other = actual.timelines[i];
+
+        expect(other.constructor).to.equal(timeline.constructor);
+        if (timeline.attachment) {
+            // property ids of deform timelines have ids of attachments, they are different in every read
+            expect(other.slotIndex).to.equal(timeline.slotIndex);
+            expect(other.attachment.name).to.equal(timeline.attachment.name);
+        } else {
+            expect(other.getPropertyIds()).to.deep.equal(timeline.getPropertyIds());
+        }
+        expectCloseArrays(other.frames, timeline.frames);
+        if (timeline.curves) {
+            expectCloseArrays(other.curves, timeline.curves);
+        }
+    });
+}
+
+describe('SkeletonJsonWriter', () => {
+    it('should write skeleton data that reads back the same', () => {
+        const data = readJson(skeletonJson);
+        const written = new SkeletonJsonWriter().writeSkeletonData(data);
+        const restored = readJson(JSON.parse(JSON.stringify(written)));
+
+        expect(restored.bones.map((bone) => [bone.name, bone.parent && bone.parent.name, bone.x, bone.y, bone.rotation]))
+            .to.deep.equal(data.bones.map((bone) => [bone.name, bone.parent && bone.parent.name, bone.x, bone.y, bone.rotation]));
+        expect(restored.slots.map((slot) => [slot.name, slot.boneData.name, slot.attachmentName, slot.blendMode]))
+            .to.deep.equal(data.slots.map((slot) => [slot.name, slot.boneData.name, slot.attachmentName, slot.blendMode]));
+        expect(restored.slots[1].color).to.deep.equal(data.slots[1].color);
+        expect(restored.slots[1].darkColor).to.deep.equal(data.slots[1].darkColor);
+        expect(restored.ikConstraints[0].mix).to.equal(0.5);
+        expect(restored.events.map((event) => [event.name, event.intValue, event.floatValue, event.stringValue, event.audioPath]))
+            .to.deep.equal(data.events.map((event) => [event.name, event.intValue, event.floatValue, event.stringValue, event.audioPath]));
+
+        const glove = restored.defaultSkin.getAttachment(1, 'glove');
+
+        expect(glove.getParentMesh()).to.equal(restored.defaultSkin.getAttachment(1, 'hand'));
+        expect(glove.deformAttachment).to.equal(glove);
+        expectCloseArrays(glove.vertices, data.defaultSkin.getAttachment(1, 'hand').vertices);
+
+        const walk = restored.findAnimation('walk');
+
+        expect(walk.duration).to.equal(1);
+        expectSameTimelines(walk, data.findAnimation('walk'));
+    });
+
+    it('should keep curves, deform, draw order and events when written again', () => {
+        const written = new SkeletonJsonWriter().writeSkeletonData(readJson(skeletonJson));
+        const rewritten = new SkeletonJsonWriter().writeSkeletonData(readJson(JSON.parse(JSON.stringify(written))));
+        const walk = written.animations.walk;
+
+        expect(rewritten).to.deep.equal(written);
+        expect(walk.bones.arm.rotate[0].curve).to.deep.equal([0.25, 0, 0.75, 45]);
+        expect(walk.bones.arm.rotate[1].curve).to.equal('stepped');
+        expect(walk.bones.arm.translate[0].curve).to.deep.equal([0.1, 0, 0.4, 8, 0.1, 0, 0.3, -4]);
+        expect(walk.deform.default.hand.hand[0].curve).to.deep.equal([0.25, 0, 0.75, 1]);
+        expect(walk.deform.default.hand.hand[1].vertices).to.deep.equal([3, -3, 4.5, 1]);
+        expect(walk.deform.default.hand.hand[1].offset).to.equal(2);
+        expect(walk.drawOrder.map((key) => key.offsets || null)).to.deep.equal([[{ slot: 'body', offset: 1 }, { slot: 'hand', offset: -1 }], null]);
+        expect(walk.events.map((key) => [key.time, key.name])).to.deep.equal([[0.25, 'step'], [0.75, 'step'], [1, 'sound']]);
+        expect(walk.events[1].string).to.equal('right');
+    });
+
+    it('should divide positions by scale', () => {
+        const writer = new SkeletonJsonWriter();
+
+        writer.scale = 2;
+
+        const written = writer.writeSkeletonData(readJson(skeletonJson, 2));
+
+        expect(written.bones[1].x).to.equal(10);
+        expect(written.animations.walk.bones.arm.translate[0].curve).to.deep.equal([0.1, 0, 0.4, 8, 0.1, 0, 0.3, -4]);
+    });
+});
+
+describe('SkeletonBinaryWriter', () => {
+    function readBinary(binary) {
+        return new SkeletonBinary(new AtlasAttachmentLoader(new TextureAtlasData(atlasText))).readSkeletonData(binary);
+    }
+
+    it('should write skeleton data that reads back the same', () => {
+        const data = readJson(skeletonJson);
+        const restored = readBinary(new SkeletonBinaryWriter().writeSkeletonData(data));
+
+        expect(new SkeletonJsonWriter().writeSkeletonData(restored))
+            .to.deep.equal(new SkeletonJsonWriter().writeSkeletonData(data));
+        expectSameTimelines(restored.findAnimation('walk'), data.findAnimation('walk'));
+    });
+
+    it('should keep linked meshes and names from string table', () => {
+        const restored = readBinary(new SkeletonBinaryWriter().writeSkeletonData(readJson(skeletonJson)));
+        const hand = restored.defaultSkin.getAttachment(1, 'hand');
+        const mitten = restored.findSkin('mittens').getAttachment(1, 'mitten');
+
+        expect(restored.defaultSkin.getAttachment(1, 'glove').getParentMesh()).to.equal(hand);
+        expect(restored.defaultSkin.getAttachment(1, 'glove').deformAttachment).not.to.equal(hand);
+        expect(mitten.getParentMesh()).to.equal(hand);
+        expect(mitten.deformAttachment).to.equal(hand);
+        expect(mitten.path).to.equal('hand');
+        expect(restored.slots[1].attachmentName).to.equal('hand');
+        expect(restored.events[0].stringValue).to.equal('left');
+        expect(restored.events[1].audioPath).to.equal('step.ogg');
+    });
+
+    it('should write the same bytes again', () => {
+        const binary = new SkeletonBinaryWriter().writeSkeletonData(readJson(skeletonJson));
+
+        expect(Array.from(new SkeletonBinaryWriter().writeSkeletonData(readBinary(binary)))).to.deep.equal(Array.from(binary));
+    });
+
+    it('should divide positions by scale', () => {
+        const writer = new SkeletonBinaryWriter();
+        const reader = new SkeletonBinary(new AtlasAttachmentLoader(new TextureAtlasData(atlasText)));
+
+        writer.scale = 2;
+        reader.scale = 2;
+
+        const data = reader.readSkeletonData(writer.writeSkeletonData(readJson(skeletonJson, 2)));
+
+        expect(data.bones[1].x).to.equal(20);
+    });
+});
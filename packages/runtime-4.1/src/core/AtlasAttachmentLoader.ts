@@ -0,0 +1,89 @@
+
+import {AttachmentLoader, RegionAttachment, MeshAttachment, BoundingBoxAttachment,
+    PathAttachment, PointAttachment, ClippingAttachment, Sequence} from './attachments';
+import {TextureAtlas} from "@pixi-spine/base";
+import type {SkeletonValidator, TextureAtlasData, TextureRegion} from "@pixi-spine/base";
+import type {Skin} from "./Skin";
+
+/**
+ * @public
+ */
+export class AtlasAttachmentLoader implements AttachmentLoader {
+    atlas: TextureAtlas | TextureAtlasData;
+    /** Missing regions are reported to it and replaced with placeholders instead of throwing. */
+    validator: SkeletonValidator;
+
+    /** TextureAtlasData reads skeletons without textures and PIXI, it has no placeholders for missing regions. */
+    constructor(atlas: TextureAtlas | TextureAtlasData, validator: SkeletonValidator = null) {
+        this.atlas = atlas;
+        this.validator = validator;
+    }
+
+    loadSequence(name: string, basePath: string, sequence: Sequence) {
+        let regions = sequence.regions;
+        for (let i = 0, n = regions.length; i < n; i++) {
+            let path = sequence.getPath(basePath, i);
+            regions[i] = this.atlas.findRegion(path);
+            if (regions[i] == null) regions[i] = this.missingRegion(name, path, "sequence");
+        }
+    }
+
+    /** @return May be null to not load an attachment. */
+    // @ts-ignore
+    newRegionAttachment(skin: Skin, name: string, path: string, sequence: Sequence): RegionAttachment {
+        let attachment = new RegionAttachment(name);
+        if (sequence != null) {
+            this.loadSequence(name, path, sequence);
+        } else {
+            let region: TextureRegion = this.atlas.findRegion(path);
+            if (region == null) region = this.missingRegion(name, path, "region attachment");
+            attachment.region = region;
+        }
+        return attachment;
+    }
+
+    /** @return May be null to not load an attachment. */
+    // @ts-ignore
+    newMeshAttachment(skin: Skin, name: string, path: string, sequence: Sequence): MeshAttachment {
+        let attachment = new MeshAttachment(name);
+        if (sequence != null) {
+            this.loadSequence(name, path, sequence);
+        } else {
+            let region: TextureRegion = this.atlas.findRegion(path);
+            if (region == null) region = this.missingRegion(name, path, "mesh attachment");
+            attachment.region = region;
+        }
+        return attachment;
+    }
+
+    /** @return May be null to not load an attachment. */
+    // @ts-ignore
+    newBoundingBoxAttachment(skin: Skin, name: string): BoundingBoxAttachment {
+        return new BoundingBoxAttachment(name);
+    }
+
+    /** @return May be null to not load an attachment */
+    // @ts-ignore
+    newPathAttachment(skin: Skin, name: string): PathAttachment {
+        return new PathAttachment(name);
+    }
+
+    // @ts-ignore
+    newPointAttachment(skin: Skin, name: string): PointAttachment {
+        return new PointAttachment(name);
+    }
+
+    // @ts-ignore
+    newClippingAttachment(skin: Skin, name: string): ClippingAttachment {
+        return new ClippingAttachment(name);
+    }
+
+    /** Only {@link TextureAtlas} has a placeholder texture, regions missing from TextureAtlasData go to validator or throw. */
+    private missingRegion(name: string, path: string, kind: string): TextureRegion {
+        let atlas = this.atlas;
+        let placeholder = atlas instanceof TextureAtlas ? atlas.placeholder : null;
+        if (this.validator) return this.validator.addMissingRegion(name, path, placeholder);
+        if (atlas instanceof TextureAtlas && placeholder) return atlas.addPlaceholderRegion(path);
+        throw new Error("Region not found in atlas: " + path + " (" + kind + ": " + name + ")");
+    }
+}
@@ -0,0 +1,29 @@
+import {SpineBatchedBase} from '@pixi-spine/base';
+import {Skeleton} from "./core/Skeleton";
+import {SkeletonData} from "./core/SkeletonData";
+import {AnimationState} from "./core/AnimationState";
+import {AnimationStateData} from "./core/AnimationStateData";
+import type {RegionAttachment} from "./core/attachments";
+import type {Slot} from "./core/Slot";
+
+/**
+ * Batched renderer mode of {@link Spine}, see {@link SpineBatchedBase}
+ *
+ * Unlike {@link Spine}, movement of the container is not passed to physics constraints.
+ *
+ * @public
+ */
+export class SpineBatched extends SpineBatchedBase<Skeleton, SkeletonData, AnimationState, AnimationStateData> {
+    createSkeleton(spineData: SkeletonData) {
+        this.skeleton = new Skeleton(spineData);
+        this.skeleton.updateWorldTransform();
+        this.stateData = new AnimationStateData(spineData);
+        this.state = new AnimationState(this.stateData);
+    }
+
+    computeRegionVertices(slot: Slot, attachment: RegionAttachment, vertices: Float32Array, offset: number) {
+        // parsers don't compute offsets, region can be changed by sequence or by user
+        attachment.updateRegion();
+        attachment.computeWorldVertices(slot, vertices, offset, 2);
+    }
+}
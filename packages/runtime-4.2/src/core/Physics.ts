@@ -0,0 +1,16 @@
+/** Determines how physics and other non-deterministic updates are applied.
+ * @public
+ * */
+export enum Physics {
+    /** Physics are not updated or applied. */
+    none,
+
+    /** Physics are reset to the current pose. */
+    reset,
+
+    /** Physics are updated and the pose from physics is applied. */
+    update,
+
+    /** Physics are not updated but the pose from physics is applied. */
+    pose
+}
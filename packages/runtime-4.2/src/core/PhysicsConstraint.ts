@@ -0,0 +1,280 @@
+import {Updatable} from "./Updatable";
+import {PhysicsConstraintData} from "./PhysicsConstraintData";
+import {Bone} from "./Bone";
+import {Skeleton} from "./Skeleton";
+import {Physics} from "./Physics";
+import {MathUtils, settings} from "@pixi-spine/base";
+
+/** Stores the current pose for a physics constraint. A physics constraint applies physics to bones.
+ * <p>
+ * See [Physics constraints](http://esotericsoftware.com/spine-physics-constraints) in the Spine User Guide.
+ * @public
+ * */
+export class PhysicsConstraint implements Updatable {
+    /** The physics constraint's setup pose data. */
+    data: PhysicsConstraintData;
+
+    /** The bone constrained by this physics constraint. */
+    bone: Bone;
+
+    inertia = 0;
+    strength = 0;
+    damping = 0;
+    massInverse = 0;
+    wind = 0;
+    gravity = 0;
+    mix = 0;
+
+    _reset = true;
+    ux = 0;
+    uy = 0;
+    cx = 0;
+    cy = 0;
+    tx = 0;
+    ty = 0;
+    xOffset = 0;
+    xVelocity = 0;
+    yOffset = 0;
+    yVelocity = 0;
+    rotateOffset = 0;
+    rotateVelocity = 0;
+    scaleOffset = 0;
+    scaleVelocity = 0;
+
+    active = false;
+
+    skeleton: Skeleton;
+    remaining = 0;
+    lastTime = 0;
+
+    constructor (data: PhysicsConstraintData, skeleton: Skeleton) {
+        if (!data) throw new Error("data cannot be null.");
+        if (!skeleton) throw new Error("skeleton cannot be null.");
+        this.data = data;
+        this.skeleton = skeleton;
+
+        this.bone = skeleton.bones[data.bone.index];
+
+        this.inertia = data.inertia;
+        this.strength = data.strength;
+        this.damping = data.damping;
+        this.massInverse = data.massInverse;
+        this.wind = data.wind;
+        this.gravity = data.gravity;
+        this.mix = data.mix;
+    }
+
+    reset () {
+        this.remaining = 0;
+        this.lastTime = this.skeleton.time;
+        this._reset = true;
+        this.xOffset = 0;
+        this.xVelocity = 0;
+        this.yOffset = 0;
+        this.yVelocity = 0;
+        this.rotateOffset = 0;
+        this.rotateVelocity = 0;
+        this.scaleOffset = 0;
+        this.scaleVelocity = 0;
+    }
+
+    setToSetupPose () {
+        const data = this.data;
+        this.inertia = data.inertia;
+        this.strength = data.strength;
+        this.damping = data.damping;
+        this.massInverse = data.massInverse;
+        this.wind = data.wind;
+        this.gravity = data.gravity;
+        this.mix = data.mix;
+    }
+
+    isActive () {
+        return this.active;
+    }
+
+    /** Applies the constraint to the constrained bones. */
+    update (physics: Physics) {
+        const mix = this.mix;
+        if (mix == 0) return;
+
+        const x = this.data.x > 0, y = this.data.y > 0, rotateOrShearX = this.data.rotate > 0 || this.data.shearX > 0, scaleX = this.data.scaleX > 0;
+        const bone = this.bone;
+        //be careful! Spine b,c is c,b in pixi matrix
+        const m = bone.matrix;
+        const l = bone.data.length;
+
+        switch (physics) {
+            case Physics.none:
+                return;
+            case Physics.reset:
+                this.reset();
+            // Fall through.
+            case Physics.update:
+                const skeleton = this.skeleton;
+                const delta = Math.max(skeleton.time - this.lastTime, 0);
+                this.remaining += delta;
+                this.lastTime = skeleton.time;
+
+                const bx = m.tx, by = m.ty;
+                if (this._reset) {
+                    this._reset = false;
+                    this.ux = bx;
+                    this.uy = by;
+                } else {
+                    let a = this.remaining, i = this.inertia, t = this.data.step, f = skeleton.data.referenceScale, d = -1;
+                    let sy = settings.yDown ? -skeleton.scaleY : skeleton.scaleY;
+                    let qx = this.data.limit * delta, qy = qx * Math.abs(sy);
+                    qx *= Math.abs(skeleton.scaleX);
+                    if (x || y) {
+                        if (x) {
+                            const u = (this.ux - bx) * i;
+                            this.xOffset += u > qx ? qx : u < -qx ? -qx : u;
+                            this.ux = bx;
+                        }
+                        if (y) {
+                            const u = (this.uy - by) * i;
+                            this.yOffset += u > qy ? qy : u < -qy ? -qy : u;
+                            this.uy = by;
+                        }
+                        if (a >= t) {
+                            d = Math.pow(this.damping, 60 * t);
+                            const m = this.massInverse * t, e = this.strength, w = this.wind * f * skeleton.scaleX, g = this.gravity * f * sy;
+                            do {
+                                if (x) {
+                                    this.xVelocity += (w - this.xOffset * e) * m;
+                                    this.xOffset += this.xVelocity * t;
+                                    this.xVelocity *= d;
+                                }
+                                if (y) {
+                                    this.yVelocity -= (g + this.yOffset * e) * m;
+                                    this.yOffset += this.yVelocity * t;
+                                    this.yVelocity *= d;
+                                }
+                                a -= t;
+                            } while (a >= t);
+                        }
+                        if (x) m.tx += this.xOffset * mix * this.data.x;
+                        if (y) m.ty += this.yOffset * mix * this.data.y;
+                    }
+                    if (rotateOrShearX || scaleX) {
+                        let ca = Math.atan2(m.b, m.a), c = 0, s = 0, mr = 0;
+                        let dx = this.cx - m.tx, dy = this.cy - m.ty;
+                        if (dx > qx)
+                            dx = qx;
+                        else if (dx < -qx)
+                            dx = -qx;
+                        if (dy > qy)
+                            dy = qy;
+                        else if (dy < -qy)
+                            dy = -qy;
+                        if (rotateOrShearX) {
+                            mr = (this.data.rotate + this.data.shearX) * mix;
+                            let r = Math.atan2(dy + this.ty, dx + this.tx) - ca - this.rotateOffset * mr;
+                            this.rotateOffset += (r - Math.ceil(r * MathUtils.invPI2 - 0.5) * MathUtils.PI2) * i;
+                            r = this.rotateOffset * mr + ca;
+                            c = Math.cos(r);
+                            s = Math.sin(r);
+                            if (scaleX) {
+                                r = l * bone.getWorldScaleX();
+                                if (r > 0) this.scaleOffset += (dx * c + dy * s) * i / r;
+                            }
+                        } else {
+                            c = Math.cos(ca);
+                            s = Math.sin(ca);
+                            const r = l * bone.getWorldScaleX();
+                            if (r > 0) this.scaleOffset += (dx * c + dy * s) * i / r;
+                        }
+                        a = this.remaining;
+                        if (a >= t) {
+                            if (d == -1) d = Math.pow(this.damping, 60 * t);
+                            const m = this.massInverse * t, e = this.strength, w = this.wind, g = (settings.yDown ? -this.gravity : this.gravity), h = l / f;
+                            while (true) {
+                                a -= t;
+                                if (scaleX) {
+                                    this.scaleVelocity += (w * c - g * s - this.scaleOffset * e) * m;
+                                    this.scaleOffset += this.scaleVelocity * t;
+                                    this.scaleVelocity *= d;
+                                }
+                                if (rotateOrShearX) {
+                                    this.rotateVelocity -= ((w * s + g * c) * h + this.rotateOffset * e) * m;
+                                    this.rotateOffset += this.rotateVelocity * t;
+                                    this.rotateVelocity *= d;
+                                    if (a < t) break;
+                                    const r = this.rotateOffset * mr + ca;
+                                    c = Math.cos(r);
+                                    s = Math.sin(r);
+                                } else if (a < t)
+                                    break;
+                            }
+                        }
+                    }
+                    this.remaining = a;
+                }
+                this.cx = m.tx;
+                this.cy = m.ty;
+                break;
+            case Physics.pose:
+                if (x) m.tx += this.xOffset * mix * this.data.x;
+                if (y) m.ty += this.yOffset * mix * this.data.y;
+        }
+
+        if (rotateOrShearX) {
+            let o = this.rotateOffset * mix, s = 0, c = 0, a = 0;
+            if (this.data.shearX > 0) {
+                let r = 0;
+                if (this.data.rotate > 0) {
+                    r = o * this.data.rotate;
+                    s = Math.sin(r);
+                    c = Math.cos(r);
+                    a = m.c;
+                    m.c = c * a - s * m.d;
+                    m.d = s * a + c * m.d;
+                }
+                r += o * this.data.shearX;
+                s = Math.sin(r);
+                c = Math.cos(r);
+                a = m.a;
+                m.a = c * a - s * m.b;
+                m.b = s * a + c * m.b;
+            } else {
+                o *= this.data.rotate;
+                s = Math.sin(o);
+                c = Math.cos(o);
+                a = m.a;
+                m.a = c * a - s * m.b;
+                m.b = s * a + c * m.b;
+                a = m.c;
+                m.c = c * a - s * m.d;
+                m.d = s * a + c * m.d;
+            }
+        }
+        if (scaleX) {
+            const s = 1 + this.scaleOffset * mix * this.data.scaleX;
+            m.a *= s;
+            m.b *= s;
+        }
+        if (physics != Physics.pose) {
+            this.tx = l * m.a;
+            this.ty = l * m.b;
+        }
+        bone.updateAppliedTransform();
+    }
+
+    /** Translates the physics constraint so next {@link #update(Physics)} forces are applied as if the bone moved an additional
+     * amount in world space. */
+    translate (x: number, y: number) {
+        this.ux -= x;
+        this.uy -= y;
+        this.cx -= x;
+        this.cy -= y;
+    }
+
+    /** Rotates the physics constraint so next {@link #update(Physics)} forces are applied as if the bone rotated around the
+     * specified point in world space. */
+    rotate (x: number, y: number, degrees: number) {
+        const r = degrees * MathUtils.degRad, cos = Math.cos(r), sin = Math.sin(r);
+        const dx = this.cx - x, dy = this.cy - y;
+        this.translate(dx * cos - dy * sin - dx, dx * sin + dy * cos - dy);
+    }
+}
@@ -0,0 +1,41 @@
+import {ConstraintData} from "./ConstraintData";
+import type {BoneData} from "./BoneData";
+
+/** Stores the setup pose for a {@link PhysicsConstraint}.
+ * <p>
+ * See [Physics constraints](http://esotericsoftware.com/spine-physics-constraints) in the Spine User Guide.
+ * @public
+ * */
+export class PhysicsConstraintData extends ConstraintData {
+    /** The bone constrained by this physics constraint. */
+    bone: BoneData;
+
+    x = 0;
+    y = 0;
+    rotate = 0;
+    scaleX = 0;
+    shearX = 0;
+    limit = 0;
+    step = 0;
+    inertia = 0;
+    strength = 0;
+    damping = 0;
+    massInverse = 0;
+    wind = 0;
+    gravity = 0;
+
+    /** A percentage (0-1) that controls the mix between the constrained and unconstrained poses. */
+    mix = 0;
+
+    inertiaGlobal = false;
+    strengthGlobal = false;
+    dampingGlobal = false;
+    massGlobal = false;
+    windGlobal = false;
+    gravityGlobal = false;
+    mixGlobal = false;
+
+    constructor (name: string) {
+        super(name, 0, false);
+    }
+}
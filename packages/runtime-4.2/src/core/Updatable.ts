@@ -0,0 +1,15 @@
+import type {Physics} from './Physics';
+
+/** The interface for items updated by {@link Skeleton#updateWorldTransform()}.
+ * @public
+ * */
+export interface Updatable {
+    /** @param physics Determines how physics and other non-deterministic updates are applied. */
+    update(physics: Physics): void;
+
+    /** Returns false when this item has not been updated because a skin is required and the {@link Skeleton#skin active skin}
+     * does not contain this item.
+     * @see Skin#getBones()
+     * @see Skin#getConstraints() */
+    isActive(): boolean;
+}
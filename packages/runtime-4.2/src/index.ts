@@ -0,0 +1,5 @@
+export * from './core';
+
+export * from './Spine';
+export * from './SpineBatched';
+export * from './SpineDebugRenderer';
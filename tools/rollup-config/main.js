@@ -115,6 +115,7 @@ exports.main = function main(options) {
             file: path.join(projectFolder, options.main || main),
             format: 'cjs',
             sourcemap: options.sourcemap,
+            paths: options.paths,
         });
     }
     if (options.module || module) {
@@ -123,10 +124,11 @@ exports.main = function main(options) {
             file: path.join(projectFolder, options.module || module),
             format: 'esm',
             sourcemap: options.sourcemap,
+            paths: options.paths,
         });
     }
 
-    if (!options.bundle && !bundle) {
+    if (options.bundle === false || (!options.bundle && !bundle)) {
         // No UMD bundle, we're done!
         return [config];
     }